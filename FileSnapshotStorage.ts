@@ -0,0 +1,36 @@
+import { promises as fs } from "fs";
+import { ITaskSnapshot, ITaskSnapshotStorage } from "./TaskSnapshot";
+
+/**
+ * 文件快照存储，仅适用于 Node 环境
+ * 先写入临时文件再重命名，进程在写入过程中退出时不会损坏已有快照
+ */
+export class FileSnapshotStorage implements ITaskSnapshotStorage {
+  /**
+   * @param filePath 快照文件路径
+   */
+  constructor(private readonly filePath: string) {}
+
+  public async save(snapshot: ITaskSnapshot): Promise<void> {
+    const tempPath = `${this.filePath}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(snapshot), "utf8");
+    await fs.rename(tempPath, this.filePath);
+  }
+
+  public async load(): Promise<ITaskSnapshot | undefined> {
+    let json: string;
+    try {
+      json = await fs.readFile(this.filePath, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return undefined;
+      }
+      throw error;
+    }
+    return JSON.parse(json);
+  }
+
+  public async clear(): Promise<void> {
+    await fs.rm(this.filePath, { force: true });
+  }
+}
@@ -0,0 +1,123 @@
+/**
+ * 限流配置
+ * - tokenBucket：令牌桶，最多累积 capacity 个令牌，每秒补充 refillPerSecond 个
+ * - slidingWindow：滑动窗口，任意 windowMs 毫秒内最多启动 limit 个任务
+ */
+export type RateLimitOptions =
+  | { type: "tokenBucket"; capacity: number; refillPerSecond: number }
+  | { type: "slidingWindow"; limit: number; windowMs: number };
+
+/**
+ * 限流器
+ */
+export interface IRateLimiter {
+  /**
+   * 获取距离下一个可用额度的等待时间
+   * @param now 当前时间
+   * @returns 等待时间（毫秒），0 表示当前可用
+   */
+  getWaitTime(now: number): number;
+  /**
+   * 占用一个额度，调用前需确认 getWaitTime 返回 0
+   * @param now 当前时间
+   */
+  acquire(now: number): void;
+}
+
+/**
+ * 令牌桶限流
+ */
+export class TokenBucketLimiter implements IRateLimiter {
+  private _tokens: number;
+  private _updatedAt: number | undefined;
+
+  constructor(
+    private readonly capacity: number,
+    private readonly refillPerSecond: number
+  ) {
+    this._tokens = capacity;
+  }
+
+  public getWaitTime(now: number): number {
+    this.refill(now);
+    if (this._tokens >= 1) {
+      return 0;
+    }
+    return Math.ceil(((1 - this._tokens) * 1000) / this.refillPerSecond);
+  }
+
+  public acquire(now: number): void {
+    this.refill(now);
+    this._tokens -= 1;
+  }
+
+  /**
+   * 按经过的时间补充令牌
+   * @param now 当前时间
+   */
+  private refill(now: number): void {
+    if (this._updatedAt !== undefined) {
+      const elapsed = Math.max(0, now - this._updatedAt);
+      this._tokens = Math.min(
+        this.capacity,
+        this._tokens + (elapsed * this.refillPerSecond) / 1000
+      );
+    }
+    this._updatedAt = now;
+  }
+}
+
+/**
+ * 滑动窗口限流
+ */
+export class SlidingWindowLimiter implements IRateLimiter {
+  /** 窗口内每次占用额度的时间，按时间先后排列 */
+  private _timestamps: number[] = [];
+
+  constructor(
+    private readonly limit: number,
+    private readonly windowMs: number
+  ) {}
+
+  public getWaitTime(now: number): number {
+    this.prune(now);
+    if (this._timestamps.length < this.limit) {
+      return 0;
+    }
+    return Math.max(1, this._timestamps[0] + this.windowMs - now);
+  }
+
+  public acquire(now: number): void {
+    this.prune(now);
+    this._timestamps.push(now);
+  }
+
+  /**
+   * 移除窗口外的记录
+   * @param now 当前时间
+   */
+  private prune(now: number): void {
+    let expired = 0;
+    while (
+      expired < this._timestamps.length &&
+      this._timestamps[expired] <= now - this.windowMs
+    ) {
+      expired++;
+    }
+    if (expired > 0) {
+      this._timestamps.splice(0, expired);
+    }
+  }
+}
+
+/**
+ * 根据配置创建限流器
+ * @param options 限流配置
+ * @returns 限流器
+ */
+export function createRateLimiter(options: RateLimitOptions): IRateLimiter {
+  if (options.type === "tokenBucket") {
+    return new TokenBucketLimiter(options.capacity, options.refillPerSecond);
+  }
+  return new SlidingWindowLimiter(options.limit, options.windowMs);
+}
@@ -0,0 +1,35 @@
+/** 计时器句柄，由 ITaskClock.setTimeout 返回 */
+export type TaskTimer = object | number;
+
+/**
+ * 时钟与调度，TaskMgr 中所有与时间相关的逻辑都通过它获取时间和设置计时器
+ */
+export interface ITaskClock {
+  /**
+   * 获取当前时间
+   * @returns 毫秒时间戳
+   */
+  now(): number;
+  /**
+   * 设置计时器
+   * @param callback 到期时的回调
+   * @param ms 延迟（毫秒）
+   * @returns 计时器句柄
+   */
+  setTimeout(callback: () => void, ms: number): TaskTimer;
+  /**
+   * 取消计时器，句柄为空或已触发时忽略
+   * @param timer 计时器句柄
+   */
+  clearTimeout(timer: TaskTimer | undefined): void;
+}
+
+/**
+ * 默认时钟，使用系统时间和全局 setTimeout
+ */
+export const systemClock: ITaskClock = {
+  now: () => Date.now(),
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: (timer) =>
+    clearTimeout(timer as ReturnType<typeof setTimeout> | undefined),
+};
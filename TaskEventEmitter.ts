@@ -0,0 +1,94 @@
+type Listener = (...args: any[]) => void;
+
+/**
+ * 类型安全的事件派发器
+ */
+export class TaskEventEmitter<
+  Events extends { [K in keyof Events]: Listener }
+> {
+  private _listeners: Map<keyof Events, Listener[]> = new Map();
+
+  /**
+   * @param onError 监听器抛错时的处理，避免影响派发方的执行流程
+   */
+  constructor(
+    private readonly onError: (error: any, event: keyof Events) => void
+  ) {}
+
+  /**
+   * 监听事件
+   * @param event 事件名
+   * @param listener 监听器
+   * @returns 取消监听的函数
+   */
+  public on<K extends keyof Events>(event: K, listener: Events[K]): () => void {
+    const listeners = this._listeners.get(event);
+    if (listeners) {
+      listeners.push(listener);
+    } else {
+      this._listeners.set(event, [listener]);
+    }
+    return () => this.off(event, listener);
+  }
+
+  /**
+   * 监听事件，触发一次后自动取消
+   * @param event 事件名
+   * @param listener 监听器
+   * @returns 取消监听的函数
+   */
+  public once<K extends keyof Events>(
+    event: K,
+    listener: Events[K]
+  ): () => void {
+    const off = this.on(event, ((...args: any[]) => {
+      off();
+      listener(...args);
+    }) as Events[K]);
+    return off;
+  }
+
+  /**
+   * 取消监听
+   * @param event 事件名
+   * @param listener 监听器
+   */
+  public off<K extends keyof Events>(event: K, listener: Events[K]): void {
+    const listeners = this._listeners.get(event);
+    const index = listeners?.indexOf(listener) ?? -1;
+    if (index >= 0) {
+      listeners!.splice(index, 1);
+    }
+  }
+
+  /**
+   * 是否有监听器
+   * @param event 事件名
+   */
+  public has(event: keyof Events): boolean {
+    return (this._listeners.get(event)?.length ?? 0) > 0;
+  }
+
+  /**
+   * 派发事件
+   * @param event 事件名
+   * @param args 事件参数
+   */
+  public emit<K extends keyof Events>(
+    event: K,
+    ...args: Parameters<Events[K]>
+  ): void {
+    const listeners = this._listeners.get(event);
+    if (!listeners) {
+      return;
+    }
+    // 复制一份，监听器内部增删监听不影响本次派发
+    for (const listener of [...listeners]) {
+      try {
+        listener(...args);
+      } catch (error) {
+        this.onError(error, event);
+      }
+    }
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * 日志接口，fields 为结构化字段，便于接入日志平台或崩溃上报
+ */
+export interface ITaskLogger {
+  debug(message: string, fields?: Record<string, any>): void;
+  info(message: string, fields?: Record<string, any>): void;
+  warn(message: string, fields?: Record<string, any>): void;
+  error(message: string, fields?: Record<string, any>): void;
+}
+
+/**
+ * 转换为 console 的参数，带 error 字段时只输出错误本身，保持原有的日志格式
+ * @param message 日志内容
+ * @param fields 结构化字段
+ * @returns console 参数
+ */
+function toConsoleArgs(message: string, fields?: Record<string, any>): any[] {
+  if (!fields) {
+    return [message];
+  }
+  if ("error" in fields) {
+    return [message, fields.error];
+  }
+  return [message, fields];
+}
+
+/**
+ * 默认日志，输出到 console，不输出 debug 级别
+ */
+export const consoleLogger: ITaskLogger = {
+  debug: () => {},
+  info: (message, fields) => console.info(...toConsoleArgs(message, fields)),
+  warn: (message, fields) => console.warn(...toConsoleArgs(message, fields)),
+  error: (message, fields) => console.error(...toConsoleArgs(message, fields)),
+};
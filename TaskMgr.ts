@@ -1,6 +1,67 @@
+import {
+  IRateLimiter,
+  RateLimitOptions,
+  createRateLimiter,
+} from "./RateLimiter";
+import { ITaskClock, TaskTimer, systemClock } from "./TaskClock";
+import { TaskEventEmitter } from "./TaskEventEmitter";
+import { ITaskLogger, consoleLogger } from "./TaskLogger";
+import {
+  ISnapshotTask,
+  ITaskSnapshot,
+  ITaskSnapshotStorage,
+} from "./TaskSnapshot";
+import { ITaskQueueNode, TaskQueue } from "./TaskQueue";
+import { TaskSlicer, isTaskGenerator } from "./TaskSlicer";
+import { ITaskStats, TaskStatsCollector, TaskStatsEvent } from "./TaskStats";
+import { ITaskTicker, createClockTicker } from "./TaskTicker";
+
+/**
+ * 任务执行上下文
+ */
+export interface ITaskContext {
+  /** 任务id */
+  id: number;
+  /** 任务描述 */
+  taskDesc: string;
+  /** cancelTask、clear 或超时时触发 abort，可传给 fetch 或在定时器中检查 */
+  signal: AbortSignal;
+  /** 当前是第几次尝试，从1开始 */
+  attempt: number;
+}
+
+/**
+ * 失败重试策略
+ */
+export interface ITaskRetryOptions {
+  /** 最大尝试次数（含首次），默认3 */
+  maxAttempts?: number;
+  /** 退避方式，fixed 每次等待 delayMs，exponential 每次翻倍，默认 fixed */
+  backoff?: "fixed" | "exponential";
+  /** 重试前等待的时间（毫秒），默认0 */
+  delayMs?: number;
+  /** 等待时间上限（毫秒） */
+  maxDelayMs?: number;
+  /** 随机抖动比例 0~1，等待时间在 ±jitter 范围内浮动，默认0 */
+  jitter?: number;
+  /** 判断是否重试，attempt 为刚失败的尝试次数，默认总是重试 */
+  shouldRetry?: (error: any, attempt: number) => boolean;
+  /** 等待重试期间是否继续占用槽位阻塞队列，默认 true */
+  blockQueue?: boolean;
+}
+
+/**
+ * 任务返回值：结果、Promise 或返回结果的生成器
+ */
+export type TaskResult<T> =
+  | T
+  | Promise<T>
+  | Generator<any, T, any>
+  | AsyncGenerator<any, T, any>;
+
 export interface ITask {
-  /** 任务 */
-  task: () => any;
+  /** 任务，返回生成器（或异步生成器）时按帧预算分段执行，生成器返回时任务完成 */
+  task: (ctx: ITaskContext) => any;
   /** 任务描述 promise报错时堆栈信息丢失，强制使用方传入，便于未主动catch时定位调试 */
   taskDesc: string;
   /** 完成回调 */
@@ -11,70 +72,2716 @@ export interface ITask {
   reject?: (reason?: any) => void;
   /** 错误回调 */
   catch?: (reason?: any) => void;
+  /** 占用的并发槽位数，默认1；donotWaitAsync 的任务不占用槽位 */
+  weight?: number;
+  /** 优先级，数值越大越先执行，也可使用 priorities 中定义的名称，默认0 */
+  priority?: number | string;
+  /** 依赖的任务id，全部完成后才会执行；任一依赖失败或取消时本任务随之失败或取消 */
+  dependsOn?: number[];
+  /** 异步任务超时时间（毫秒），超时按 TaskTimeoutError 失败处理，0 表示不限制 */
+  timeoutMs?: number;
+  /** 取消回调，任务被 cancelTask 取消或因依赖取消而取消时触发 */
+  onCancel?: () => void;
+  /** 失败重试策略，重试用尽后 reject/catch 收到 TaskRetryError */
+  retry?: ITaskRetryOptions;
+  /** 去重键，配合 dedupe 策略合并相同键的任务 */
+  key?: string;
+  /** 相同 key 的处理策略，默认使用 TaskMgr 的 dedupePolicy */
+  dedupe?: TaskDedupePolicy;
+  /** 限流分组，需在 TaskMgr 的 rateGroups 中配置；等待额度的任务按入队顺序执行 */
+  rateGroup?: string;
+  /**
+   * 访问的资源，有冲突的任务按入队顺序依次执行；资源只限制冲突的任务，
+   * 没有冲突的任务仍占用并发槽位，需配置 maxConcurrency 大于1才能并发（默认串行执行）
+   */
+  resources?: TaskResource[];
+  /** 统计分类，默认使用 taskDesc */
+  category?: string;
+  /** 延迟多少毫秒后才进入等待队列 */
+  delayMs?: number;
+  /** 到达该时间（时间戳或 Date）后才进入等待队列，优先于 delayMs */
+  runAt?: number | Date;
+  /** 重复执行的间隔（毫秒），每次执行结束后间隔该时间再次进入等待队列 */
+  repeatEvery?: number;
+  /** 重复任务的最多执行次数，默认不限 */
+  repeatTimes?: number;
+}
+
+/**
+ * 相同 key 任务的去重策略
+ * - dropNew：已有等待中的同键任务时忽略新任务
+ * - replacePending：取消等待中的同键任务，以新任务为准
+ * - joinRunning：已有运行中（或等待中）的同键任务时，新任务的回调共享其结果
+ */
+export type TaskDedupePolicy = "dropNew" | "replacePending" | "joinRunning";
+
+/**
+ * 资源访问方式：读与读之间不冲突，写与任何访问都冲突
+ */
+export type TaskResourceMode = "read" | "write";
+
+/**
+ * 任务访问的资源，只写名称时按写入处理
+ */
+export type TaskResource = string | { name: string; mode?: TaskResourceMode };
+
+/**
+ * 任务中间件，包裹每次尝试对 task 的调用
+ * - 调用 next() 执行后续中间件和任务本身，返回值即任务结果（异步任务为 Promise）
+ * - 可修改返回值、转换抛出的错误，或不调用 next() 直接返回结果
+ * - 先注册的中间件在外层；任一中间件返回 Promise 时任务按异步任务处理
+ */
+export type TaskMiddleware = (ctx: ITaskContext, next: () => any) => any;
+
+/**
+ * 通过 register 注册的任务处理函数
+ */
+export type TaskHandler = (payload: any, ctx: ITaskContext) => any;
+
+/**
+ * 按注册名添加的任务，可以保存到快照中
+ */
+export interface INamedTask extends Omit<ITask, "task"> {
+  /** 注册的任务名 */
+  name: string;
+  /** 传给处理函数的参数，需可 JSON 序列化 */
+  payload?: any;
+}
+
+export interface ITaskMgrOptions {
+  /** 最大并发槽位数，默认1即串行执行，声明了 resources 的任务同样受此限制 */
+  maxConcurrency?: number;
+  /** 命名优先级，会与默认的 high/normal/low 合并 */
+  priorities?: Record<string, number>;
+  /** 任务每等待 agingMs 毫秒优先级提升1，防止低优先级任务饿死，默认不启用 */
+  agingMs?: number;
+  /** 未指定 timeoutMs 的任务使用的默认超时时间（毫秒），默认不限制 */
+  defaultTimeoutMs?: number;
+  /** 设置了 key 但未指定 dedupe 的任务使用的去重策略，默认 dropNew */
+  dedupePolicy?: TaskDedupePolicy;
+  /** 全局限流，所有任务启动前都需获取额度 */
+  rateLimit?: RateLimitOptions;
+  /** 分组限流，任务通过 rateGroup 指定分组，不同分组互不阻塞 */
+  rateGroups?: Record<string, RateLimitOptions>;
+  /** 是否收集运行统计，默认不收集 */
+  stats?: boolean;
+  /** 调试模式：添加任务时记录调用堆栈，失败原因包装为 TaskError，默认关闭 */
+  debug?: boolean;
+  /** 日志，默认输出到 console */
+  logger?: ITaskLogger;
+  /** 任务失败且没有 reject/catch 时调用，默认通过 logger.error 输出 */
+  onUnhandledError?: (error: any, task: ITaskEvent) => void;
+  /** 时钟与调度，测试时可传入 VirtualClock，默认使用系统时间和 setTimeout */
+  clock?: ITaskClock;
+  /** 一次调度中连续启动多少个任务后让出事件循环，默认不让出 */
+  yieldEvery?: number;
+  /** 一次调度持续多少毫秒后让出事件循环，默认不让出 */
+  yieldAfterMs?: number;
+  /** 推进生成器任务的帧回调来源，默认按 clock 每16毫秒一帧 */
+  ticker?: ITaskTicker;
+  /** 每帧推进生成器任务的时间预算（毫秒），默认8 */
+  frameBudgetMs?: number;
+}
+
+/**
+ * 子队列配置，clock、logger、onUnhandledError、debug、ticker 未指定时沿用父队列
+ */
+export interface ITaskMgrChildOptions extends ITaskMgrOptions {
+  /** 名称，用于父队列中槽位任务的描述 */
+  name?: string;
+  /** 是否在父队列中只占用一个槽位：子队列有任务运行时占用，全部结束后归还 */
+  shareSlot?: boolean;
+}
+
+/**
+ * 任务事件信息
+ */
+export interface ITaskEvent {
+  /** 任务id */
+  id: number;
+  /** 任务描述 */
+  taskDesc: string;
+  /** 进入等待队列的时间 */
+  enqueuedAt: number;
+  /** 首次开始执行的时间 */
+  startedAt?: number;
+  /** 结束时间 */
+  settledAt?: number;
+  /** 排队耗时（毫秒） */
+  waitMs?: number;
+  /** 执行耗时（毫秒） */
+  runMs?: number;
+}
+
+/**
+ * TaskMgr 事件
+ */
+export interface ITaskMgrEvents {
+  /** 任务已添加 */
+  enqueued: (event: ITaskEvent) => void;
+  /** 任务开始执行 */
+  started: (event: ITaskEvent) => void;
+  /** 任务成功 */
+  resolved: (event: ITaskEvent, result: any) => void;
+  /** 任务失败 */
+  rejected: (event: ITaskEvent, reason: any) => void;
+  /** 任务被取消 */
+  cancelled: (event: ITaskEvent) => void;
+  /** 任务因 clear 被丢弃 */
+  discarded: (event: ITaskEvent) => void;
+  /** 没有等待中或运行中的任务 */
+  idle: () => void;
+  /** 等待队列已清空，可能仍有任务在运行 */
+  drain: () => void;
+}
+
+type TaskInfo = ITask & {
+  id: number;
+  /** 解析后的优先级 */
+  level: number;
+  /** 入队序号，同优先级按此 FIFO */
+  seq: number;
+  /** 入队时间 */
+  enqueuedAt: number;
+  /** 进入等待队列的时间，未设置时立即入队 */
+  dueAt?: number;
+  /** 等待进入队列的计时器 */
+  scheduleTimer?: TaskTimer;
+  /** 重复任务已完成的执行次数 */
+  runs: number;
+  /** 尚未完成的依赖任务id */
+  waitingOn?: Set<number>;
+  /** 首次开始执行的时间 */
+  startedAt?: number;
+  /** 本次尝试开始执行的时间 */
+  attemptStartedAt?: number;
+  /** 每次尝试开始执行的时间，仅调试模式记录 */
+  attemptStartTimes?: number[];
+  /** 添加任务时的调用堆栈，仅调试模式记录 */
+  enqueueStack?: string;
+  /** 超时计时器 */
+  timeoutTimer?: TaskTimer;
+  /** 重试等待计时器 */
+  retryTimer?: TaskTimer;
+  /** 用于通知当前尝试停止的 AbortController */
+  controller?: AbortController;
+  /** 正在同步执行 task() */
+  executing?: boolean;
+  /** 尝试序号，超时或取消时自增，使旧尝试的 Promise 结果失效 */
+  generation: number;
+  /** 已开始的尝试次数 */
+  attempt: number;
+  /** 每次尝试的错误，仅配置了重试时记录 */
+  errors: any[];
+  /** 在优先级队列或暂存队列中的节点，排队中时才有 */
+  queueNode?: ITaskQueueNode<TaskInfo>;
+  /** 所在暂存队列的键，在优先级队列中时为空 */
+  parkedOn?: string;
+  /** 暂存时在资源等待列表中的节点 */
+  waiterNodes?: [TaskQueue<TaskInfo>, ITaskQueueNode<TaskInfo>][];
+  /** 资源名 -> 访问方式，同一资源既读又写时按写入处理 */
+  resourceModes?: Map<string, TaskResourceMode>;
+  /** 通过 runTask 添加或合并时的任务句柄 */
+  handle?: TaskHandle<any>;
+  /** 任务本身由 runTask 添加，失败由句柄接收；只是被 runTask 合并的任务仍需报告未处理的失败 */
+  ownHandle?: boolean;
+  /** 按注册名添加的任务的名称和参数 */
+  registered?: { name: string; payload?: any };
+  /** 以 joinRunning 合并进来的任务，共享本任务的结果 */
+  joiners?: ITask[];
+  /** 所属的任务组 */
+  groups?: TaskGroup[];
+  /** 有不属于任何任务组的调用方（直接添加或通过 key 合并），任务组取消时不取消任务 */
+  ungrouped?: boolean;
+};
+
+type TaskOutcome = "resolved" | "failed" | "cancelled";
+
+/** 资源的占用情况 */
+interface IResourceLock {
+  /** 读取中的任务数 */
+  readers: number;
+  /** 是否有任务在写入 */
+  writer: boolean;
+}
+
+/** 暂存中使用某个资源的任务，按入队顺序排列 */
+interface IResourceWaiters {
+  /** 所有任务 */
+  all: TaskQueue<TaskInfo>;
+  /** 写入的任务 */
+  writers: TaskQueue<TaskInfo>;
+}
+
+/** 子队列在父队列中占用的槽位任务 */
+interface IParentSlot {
+  /** 父队列中的任务id */
+  id?: number;
+  /** 添加槽位任务时父队列的实例ID */
+  parentSession: number;
+  /** 槽位任务开始执行后才有，调用后归还槽位 */
+  release?: () => void;
+}
+
+/** 失败或取消的任务记录，供后续任务的 dependsOn 查询 */
+interface ISettledTask {
+  outcome: TaskOutcome;
+  taskDesc: string;
+  reason?: any;
+}
+
+/**
+ * 依赖的任务失败时，传给下游任务 reject/catch 的错误
+ */
+export class TaskDependencyError extends Error {
+  constructor(
+    /** 下游任务描述 */
+    public readonly taskDesc: string,
+    /** 失败的依赖任务id */
+    public readonly dependencyId: number,
+    /** 失败的依赖任务描述 */
+    public readonly dependencyDesc: string,
+    /** 依赖任务的失败原因 */
+    public readonly cause?: any
+  ) {
+    super(`[TaskMgr] 依赖的任务失败 [${taskDesc}] <- [${dependencyDesc}]`);
+    this.name = "TaskDependencyError";
+  }
+}
+
+/**
+ * 任务超时时传给 reject/catch 的错误
+ */
+export class TaskTimeoutError extends Error {
+  constructor(
+    /** 任务描述 */
+    public readonly taskDesc: string,
+    /** 从开始执行到超时经过的时间（毫秒） */
+    public readonly elapsedMs: number
+  ) {
+    super(`[TaskMgr] 任务超时 [${taskDesc}] ${elapsedMs}ms`);
+    this.name = "TaskTimeoutError";
+  }
+}
+
+/**
+ * 重试用尽后传给 reject/catch 的错误
+ */
+export class TaskRetryError extends Error {
+  /** 最后一次尝试的错误 */
+  public readonly cause: any;
+
+  constructor(
+    /** 任务描述 */
+    public readonly taskDesc: string,
+    /** 每次尝试的错误，按尝试顺序排列 */
+    public readonly errors: any[]
+  ) {
+    super(`[TaskMgr] 任务重试${errors.length}次后仍失败 [${taskDesc}]`);
+    this.name = "TaskRetryError";
+    this.cause = errors[errors.length - 1];
+  }
+
+  /** 尝试次数 */
+  get attempts(): number {
+    return this.errors.length;
+  }
+}
+
+/**
+ * 任务被取消或被 clear 时，任务句柄 reject 的错误
+ */
+export class TaskCancelledError extends Error {
+  constructor(
+    /** 任务描述 */
+    public readonly taskDesc: string,
+    /** 是否因 clear 而取消 */
+    public readonly cleared: boolean
+  ) {
+    super(
+      `[TaskMgr] 任务${cleared ? "已被 clear 丢弃" : "已取消"} [${taskDesc}]`
+    );
+    this.name = "TaskCancelledError";
+  }
+}
+
+/**
+ * 调试模式下任务的耗时记录
+ */
+export interface ITaskErrorTimings {
+  /** 进入等待队列的时间 */
+  enqueuedAt: number;
+  /** 每次尝试开始执行的时间，未开始执行时为空 */
+  attemptStartTimes: number[];
+  /** 失败的时间 */
+  failedAt: number;
+}
+
+/**
+ * 调试模式下传给 reject/catch 或输出到日志的错误，包装原始失败原因
+ */
+export class TaskError extends Error {
+  constructor(
+    /** 任务描述 */
+    public readonly taskDesc: string,
+    /** 任务id */
+    public readonly taskId: number,
+    /** 原始失败原因 */
+    public readonly cause: any,
+    /** 添加任务时的调用堆栈 */
+    public readonly enqueueStack: string | undefined,
+    /** 耗时记录 */
+    public readonly timings: ITaskErrorTimings
+  ) {
+    super(
+      `[TaskMgr] 任务失败 [${taskDesc}] #${taskId}: ${
+        cause instanceof Error ? cause.message : String(cause)
+      }`
+    );
+    this.name = "TaskError";
+    if (enqueueStack) {
+      this.stack = `${this.stack}\n    --- 任务添加位置 ---\n${enqueueStack}`;
+    }
+  }
+}
+
+export type TaskStatus =
+  | "pending"
+  | "running"
+  | "resolved"
+  | "rejected"
+  | "cancelled";
+
+/**
+ * runTask 返回的任务句柄，可直接 await 获取任务结果
+ */
+export class TaskHandle<T> implements PromiseLike<T> {
+  private _status: TaskStatus = "pending";
+  private _promise: Promise<T>;
+  private _resolve!: (value: T) => void;
+  private _reject!: (reason: any) => void;
+
+  constructor(
+    /** 任务id */
+    public readonly id: number,
+    /** 任务描述 */
+    public readonly taskDesc: string,
+    private readonly _mgr: TaskMgr
+  ) {
+    this._promise = new Promise<T>((resolve, reject) => {
+      this._resolve = resolve;
+      this._reject = reject;
+    });
+    // 未 await 的句柄被 reject 时不视为未处理的 Promise 错误
+    this._promise.catch(() => {});
+  }
+
+  /** 任务状态 */
+  get status(): TaskStatus {
+    return this._status;
+  }
+
+  /**
+   * 取消任务
+   */
+  public cancel(): void {
+    this._mgr.cancelTask(this.id);
+  }
+
+  public then<R1 = T, R2 = never>(
+    onfulfilled?: ((value: T) => R1 | PromiseLike<R1>) | null,
+    onrejected?: ((reason: any) => R2 | PromiseLike<R2>) | null
+  ): Promise<R1 | R2> {
+    return this._promise.then(onfulfilled, onrejected);
+  }
+
+  public catch<R = never>(
+    onrejected?: ((reason: any) => R | PromiseLike<R>) | null
+  ): Promise<T | R> {
+    return this._promise.catch(onrejected);
+  }
+
+  /**
+   * 任务开始执行，由 TaskMgr 调用
+   * @internal
+   */
+  public markRunning(): void {
+    if (this._status === "pending") {
+      this._status = "running";
+    }
+  }
+
+  /**
+   * 任务结束，由 TaskMgr 调用
+   * @internal
+   * @param status 结束状态
+   * @param value 成功时为结果，否则为原因
+   */
+  public settle(
+    status: "resolved" | "rejected" | "cancelled",
+    value: any
+  ): void {
+    if (
+      this._status === "resolved" ||
+      this._status === "rejected" ||
+      this._status === "cancelled"
+    ) {
+      return;
+    }
+    this._status = status;
+    if (status === "resolved") {
+      this._resolve(value);
+    } else {
+      this._reject(value);
+    }
+  }
+}
+
+/**
+ * 任务组中单个任务的结果
+ */
+export interface ITaskGroupEntry {
+  /** 任务id */
+  id: number;
+  /** 任务描述 */
+  taskDesc: string;
+  /** 任务状态，尚未结束时为 pending */
+  status: "pending" | "resolved" | "rejected" | "cancelled";
+  /** 成功时的结果 */
+  result?: any;
+  /** 失败或取消时的原因 */
+  reason?: any;
+}
+
+/**
+ * 任务组，由 TaskMgr.createGroup 创建，便于整批取消和等待
+ */
+export class TaskGroup {
+  private _entries: Map<number, ITaskGroupEntry> = new Map();
+  private _pendingCount: number = 0;
+  private _waiters: Array<(entries: ITaskGroupEntry[]) => void> = [];
+
+  constructor(
+    /** 组名 */
+    public readonly name: string,
+    private readonly _mgr: TaskMgr
+  ) {}
+
+  /** 组内任务结果，按添加顺序排列 */
+  get entries(): ITaskGroupEntry[] {
+    return [...this._entries.values()];
+  }
+
+  /** 组内成功任务的结果，按添加顺序排列 */
+  get results(): any[] {
+    return this.entries
+      .filter((entry) => entry.status === "resolved")
+      .map((entry) => entry.result);
+  }
+
+  /** 组内失败任务的原因，按添加顺序排列 */
+  get errors(): any[] {
+    return this.entries
+      .filter((entry) => entry.status === "rejected")
+      .map((entry) => entry.reason);
+  }
+
+  /** 尚未结束的任务数 */
+  get pendingCount(): number {
+    return this._pendingCount;
+  }
+
+  /**
+   * 添加任务
+   * @param task 任务
+   * @returns 任务id
+   */
+  public addTask(task: ITask): number {
+    return this._mgr.addGroupTask(this, task, false).id;
+  }
+
+  /**
+   * 添加任务并返回可 await 的句柄
+   * @param task 任务
+   * @returns 任务句柄
+   */
+  public runTask<T>(
+    task: ITask & { task: (ctx: ITaskContext) => TaskResult<T> }
+  ): TaskHandle<T> {
+    return this._mgr.addGroupTask(this, task, true).handle!;
+  }
+
+  /**
+   * 取消组内所有尚未结束的任务
+   * 通过 key 与组外调用方或其它任务组共享的任务只移出本组，记为取消，任务本身继续执行
+   */
+  public cancelAll(): void {
+    this._mgr.cancelGroupTasks(
+      this,
+      this.entries
+        .filter((entry) => entry.status === "pending")
+        .map((entry) => entry.id)
+    );
+  }
+
+  /**
+   * 等待组内当前所有任务结束
+   * @returns 组内任务结果，按添加顺序排列
+   */
+  public whenSettled(): Promise<ITaskGroupEntry[]> {
+    if (this._pendingCount === 0) {
+      return Promise.resolve(this.entries);
+    }
+    return new Promise((resolve) => {
+      this._waiters.push(resolve);
+    });
+  }
+
+  /**
+   * 记录组内任务，由 TaskMgr 调用
+   * @internal
+   * @param id 任务id
+   * @param taskDesc 任务描述
+   */
+  public track(id: number, taskDesc: string): void {
+    if (this._entries.has(id)) {
+      return;
+    }
+    this._entries.set(id, { id, taskDesc, status: "pending" });
+    this._pendingCount++;
+  }
+
+  /**
+   * 组内任务结束，由 TaskMgr 调用
+   * @internal
+   * @param id 任务id
+   * @param status 结束状态
+   * @param value 成功时为结果，否则为原因
+   */
+  public settle(
+    id: number,
+    status: "resolved" | "rejected" | "cancelled",
+    value: any
+  ): void {
+    const entry = this._entries.get(id);
+    if (!entry || entry.status !== "pending") {
+      return;
+    }
+    entry.status = status;
+    if (status === "resolved") {
+      entry.result = value;
+    } else {
+      entry.reason = value;
+    }
+    if (--this._pendingCount > 0) {
+      return;
+    }
+    const waiters = this._waiters;
+    this._waiters = [];
+    for (const waiter of waiters) {
+      waiter(this.entries);
+    }
+  }
+}
+
+/**
+ * 计算第 attempt 次尝试失败后的等待时间
+ * @param retry 重试策略
+ * @param attempt 刚失败的尝试次数
+ * @returns 等待时间（毫秒）
+ */
+function getRetryDelay(retry: ITaskRetryOptions, attempt: number): number {
+  let delay = retry.delayMs ?? 0;
+  if (retry.backoff === "exponential") {
+    delay *= 2 ** (attempt - 1);
+  }
+  if (retry.maxDelayMs !== undefined) {
+    delay = Math.min(delay, retry.maxDelayMs);
+  }
+  const jitter = retry.jitter ?? 0;
+  if (jitter > 0) {
+    delay *= 1 + jitter * (Math.random() * 2 - 1);
+  }
+  return Math.max(0, delay);
+}
+
+/**
+ * 按入队序号插入队列，队列中的任务已按序号排列
+ * 新暂存的任务通常最晚入队，因此从队尾向前查找
+ * @param queue 队列
+ * @param task 任务
+ * @returns 节点
+ */
+function insertBySeq(
+  queue: TaskQueue<TaskInfo>,
+  task: TaskInfo
+): ITaskQueueNode<TaskInfo> {
+  let next: ITaskQueueNode<TaskInfo> | undefined;
+  for (
+    let node = queue.lastNode;
+    node && node.value.seq > task.seq;
+    node = node.prev
+  ) {
+    next = node;
+  }
+  return queue.insertBefore(task, next);
+}
+
+/**
+ * 占用资源
+ * @param resources 资源名 -> 访问方式
+ * @param locks 已占用的资源
+ */
+function lockResources(
+  resources: Map<string, TaskResourceMode>,
+  locks: Map<string, IResourceLock>
+): void {
+  for (const [name, mode] of resources) {
+    let lock = locks.get(name);
+    if (!lock) {
+      lock = { readers: 0, writer: false };
+      locks.set(name, lock);
+    }
+    if (mode === "write") {
+      lock.writer = true;
+    } else {
+      lock.readers++;
+    }
+  }
 }
 
-type TaskInfo = ITask & { id: number };
+/** setTimeout 支持的最大延迟，超出时分段等待 */
+const MAX_TIMER_DELAY = 0x7fffffff;
+
+/**
+ * 保留失败原因的记录数，超出后丢弃最早的记录，只保留任务id；
+ * 之后依赖这些任务的新任务仍会失败，但拿不到原始的失败原因
+ */
+const MAX_FAILED_RECORDS = 1000;
+
+/** 默认帧间隔 */
+const DEFAULT_TICK_MS = 16;
+
+/** 默认每帧推进生成器任务的时间预算 */
+const DEFAULT_FRAME_BUDGET_MS = 8;
+
+/** 默认命名优先级 */
+const DEFAULT_PRIORITIES: Record<string, number> = {
+  high: 1,
+  normal: 0,
+  low: -1,
+};
+
+/**
+ * 微型工作队列
+ */
+export class TaskMgr {
+  /** 下一个任务id，实例生命周期内递增，clear 后也不会复用 */
+  private _nextId: number = 1;
+  /** 最大并发槽位数 */
+  private _maxConcurrency: number;
+  /** 已占用的槽位数 */
+  private _usedSlots: number = 0;
+  /** 正在运行的任务集合（包含异步不等待的任务） */
+  private _runningTasks: Map<number, TaskInfo> = new Map();
+  /** 正在同步执行时被取消的任务，返回后丢弃其结果 */
+  private _taskCancelSet: Set<number> = new Set();
+  /** 任务id -> 尚未结束的任务，任务结束或被 clear 时移除 */
+  private _taskIndex: Map<number, TaskInfo> = new Map();
+  /** 实例ID，用于解决 clear 后旧任务回调污染问题 */
+  private _sessionId: number = 0;
+  /** 入队序号 */
+  private _nextSeq: number = 0;
+  /** 命名优先级 */
+  private _priorities: Record<string, number>;
+  /** 优先级老化间隔 */
+  private _agingMs: number;
+  /** 等待依赖完成的任务 */
+  private _blockedTasks: Map<number, TaskInfo> = new Map();
+  /** 依赖任务id -> 等待它的任务id */
+  private _dependents: Map<number, Set<number>> = new Map();
+  /** 本次实例中最近失败或取消的任务，成功的任务不保留记录 */
+  private _failedTasks: Map<number, ISettledTask> = new Map();
+  /** 本次实例中所有失败或取消的任务id，记录被丢弃后仍能判断依赖未成功 */
+  private _failedIds: Set<number> = new Set();
+  /** 本次实例的第一个任务id，更早的id在 clear 时已丢弃 */
+  private _sessionStartId: number = 1;
+  /** 已结束、尚未处理下游任务的任务，依赖链逐层加入，不递归 */
+  private _settledQueue: [TaskInfo, ISettledTask][] = [];
+  /** 是否正在处理下游任务 */
+  private _settlingDependents: boolean = false;
+  /** 默认超时时间 */
+  private _defaultTimeoutMs: number;
+  /** 让出槽位等待重试的任务 */
+  private _retryingTasks: Map<number, TaskInfo> = new Map();
+  /** 未到执行时间的延迟任务和重复任务 */
+  private _scheduledTasks: Map<number, TaskInfo> = new Map();
+  /** 是否暂停启动新任务 */
+  private _paused: boolean = false;
+  /** 是否空闲 */
+  private _idle: boolean = true;
+  /** 去重策略 */
+  private _dedupePolicy: TaskDedupePolicy;
+  /** key -> 尚未开始的任务 */
+  private _pendingByKey: Map<string, TaskInfo> = new Map();
+  /** key -> 已开始尚未结束的任务 */
+  private _runningByKey: Map<string, TaskInfo> = new Map();
+  /** 全局限流器 */
+  private _rateLimiter?: IRateLimiter;
+  /** 分组限流器 */
+  private _groupLimiters: Map<string, IRateLimiter> = new Map();
+  /** 运行中的任务占用的资源 */
+  private _resourceLocks: Map<string, IResourceLock> = new Map();
+  /**
+   * 因分组额度不足或资源冲突暂时不能启动的任务，键为 group:分组名 或 resource:资源名，
+   * 每个队列按入队顺序排列，只需检查队首，不必每次扫描所有等待的任务
+   */
+  private _parked: Map<string, TaskQueue<TaskInfo>> = new Map();
+  /** 阻塞原因可能已解除、需要重新检查队首的暂存队列 */
+  private _dirtyParks: Set<string> = new Set();
+  /** 资源名 -> 暂存中使用该资源的任务，后入队的冲突任务需排在它们之后 */
+  private _resourceWaiters: Map<string, IResourceWaiters> = new Map();
+  /** 等待限流额度的唤醒计时器 */
+  private _rateTimer?: TaskTimer;
+  /** 唤醒计时器的触发时间 */
+  private _rateTimerDue: number = 0;
+  /** 每次调度最多连续启动的任务数，0表示不限制 */
+  private _yieldEvery: number;
+  /** 每次调度最长持续时间，0表示不限制 */
+  private _yieldAfterMs: number;
+  /** 是否正在驱动循环中 */
+  private _driving: boolean = false;
+  /** 驱动循环中是否又请求了调度 */
+  private _stepRequested: boolean = false;
+  /** 让出事件循环后继续调度的计时器 */
+  private _yieldTimer?: TaskTimer;
+  /** 帧回调来源 */
+  private _ticker: ITaskTicker;
+  /** 生成器任务的时间切片 */
+  private _slicer: TaskSlicer;
+  /** 调试模式 */
+  private _debug: boolean;
+  /** 时钟 */
+  private _clock: ITaskClock;
+  /** 中间件，按注册顺序排列 */
+  private _middlewares: TaskMiddleware[] = [];
+  /** 注册的任务处理函数 */
+  private _registry: Map<string, TaskHandler> = new Map();
+  /** 日志 */
+  private _logger: ITaskLogger = consoleLogger;
+  /** 未处理的任务错误 */
+  private _onUnhandledError?: (error: any, task: ITaskEvent) => void;
+  /** 运行统计，未开启时为空 */
+  private _stats?: TaskStatsCollector;
+  /** 记录统计的收集器：自身和开启了统计的祖先队列 */
+  private _statsSinks: TaskStatsCollector[] = [];
+  /** 父队列 */
+  private _parent?: TaskMgr;
+  /** 子队列 */
+  private _children: Set<TaskMgr> = new Set();
+  /** 子队列名称 */
+  private _name: string = "";
+  /** 是否在父队列中只占用一个槽位 */
+  private _shareSlot: boolean = false;
+  /** 在父队列中申请或占用的槽位任务 */
+  private _parentSlot?: IParentSlot;
+  /** 事件派发 */
+  private _events = new TaskEventEmitter<ITaskMgrEvents>((error, event) => {
+    this._logger.error(`[TaskMgr] 事件监听器异常 [${String(event)}]:`, {
+      event,
+      error,
+    });
+  });
+
+  /**
+   * 创建工作队列管理
+   * @param options 配置项
+   * @returns TaskMgr
+   */
+  public static create(options: ITaskMgrOptions = {}): TaskMgr {
+    return new TaskMgr(options);
+  }
+
+  /**
+   * 根据快照重建队列，任务按快照中的顺序重新添加
+   * @param snapshot 快照
+   * @param registry 任务名 -> 处理函数，需包含快照中的所有任务名
+   * @param options 配置项
+   * @returns TaskMgr
+   */
+  public static restore(
+    snapshot: ITaskSnapshot,
+    registry: Record<string, TaskHandler>,
+    options: ITaskMgrOptions = {}
+  ): TaskMgr {
+    const mgr = new TaskMgr(options);
+    for (const [name, handler] of Object.entries(registry)) {
+      mgr.register(name, handler);
+    }
+    const ids: number[] = [];
+    // 全部添加后再启动，保证按优先级而不是添加顺序执行
+    mgr.pause();
+    try {
+      for (const { interrupted, dependsOn, ...task } of snapshot.tasks) {
+        ids.push(
+          mgr.addNamedTask({
+            ...task,
+            dependsOn: dependsOn?.map((index) => ids[index]),
+          })
+        );
+      }
+    } finally {
+      mgr.resume();
+    }
+    return mgr;
+  }
+
+  /**
+   * 从存储中读取快照并重建队列，没有快照时返回空队列
+   * @param storage 快照存储
+   * @param registry 任务名 -> 处理函数
+   * @param options 配置项
+   * @returns TaskMgr
+   */
+  public static async load(
+    storage: ITaskSnapshotStorage,
+    registry: Record<string, TaskHandler>,
+    options: ITaskMgrOptions = {}
+  ): Promise<TaskMgr> {
+    const snapshot = await storage.load();
+    if (!snapshot) {
+      const mgr = new TaskMgr(options);
+      for (const [name, handler] of Object.entries(registry)) {
+        mgr.register(name, handler);
+      }
+      return mgr;
+    }
+    return TaskMgr.restore(snapshot, registry, options);
+  }
+
+  constructor(options: ITaskMgrOptions = {}) {
+    this._maxConcurrency = Math.max(1, Math.floor(options.maxConcurrency ?? 1));
+    this._priorities = { ...DEFAULT_PRIORITIES, ...options.priorities };
+    this._agingMs = options.agingMs ?? 0;
+    this._defaultTimeoutMs = options.defaultTimeoutMs ?? 0;
+    this._dedupePolicy = options.dedupePolicy ?? "dropNew";
+    if (options.rateLimit) {
+      this._rateLimiter = createRateLimiter(options.rateLimit);
+    }
+    for (const [group, limit] of Object.entries(options.rateGroups ?? {})) {
+      this._groupLimiters.set(group, createRateLimiter(limit));
+    }
+    if (options.stats) {
+      this._stats = new TaskStatsCollector();
+      this._statsSinks.push(this._stats);
+    }
+    this._debug = options.debug ?? false;
+    this._clock = options.clock ?? systemClock;
+    this._logger = options.logger ?? consoleLogger;
+    this._onUnhandledError = options.onUnhandledError;
+    this._yieldEvery = Math.max(0, Math.floor(options.yieldEvery ?? 0));
+    this._yieldAfterMs = Math.max(0, options.yieldAfterMs ?? 0);
+    this._ticker =
+      options.ticker ?? createClockTicker(this._clock, DEFAULT_TICK_MS);
+    this._slicer = new TaskSlicer(
+      this._ticker,
+      this._clock,
+      options.frameBudgetMs ?? DEFAULT_FRAME_BUDGET_MS
+    );
+  }
+
+  /** 按优先级分道的等待队列，每条队列内部 FIFO */
+  private _lanes: Map<number, TaskQueue<TaskInfo>> = new Map();
+
+  /**
+   * 添加任务
+   * @param task 任务
+   * @returns 任务id，任务按 key 去重时返回实际执行的任务id
+   */
+  public addTask(task: ITask): number {
+    return this.pushTask(task, false).id;
+  }
+
+  /**
+   * 注册任务处理函数，之后可通过 addNamedTask 按名称添加任务
+   * @param name 任务名
+   * @param handler 处理函数
+   */
+  public register(name: string, handler: TaskHandler): void {
+    if (this._registry.has(name)) {
+      throw new Error(`[TaskMgr] 任务名已注册 "${name}"`);
+    }
+    this._registry.set(name, handler);
+  }
+
+  /**
+   * 按注册名添加任务，这类任务会保存到 snapshot 中
+   * @param task 任务
+   * @returns 任务id，任务按 key 去重时返回实际执行的任务id
+   */
+  public addNamedTask(task: INamedTask): number {
+    const { name, payload, ...rest } = task;
+    const handler = this._registry.get(name);
+    if (!handler) {
+      throw new Error(`[TaskMgr] 任务名未注册 "${name}" [${task.taskDesc}]`);
+    }
+    const named: ITask & Pick<TaskInfo, "registered"> = {
+      ...rest,
+      task: (ctx) => handler(payload, ctx),
+      registered: { name, payload },
+    };
+    return this.pushTask(named, false).id;
+  }
+
+  /**
+   * 生成队列快照，只包含通过 addNamedTask 添加且尚未结束的任务
+   * 依赖的任务不在快照中时（非 addNamedTask 添加或运行中未包含），恢复后无法等待它，
+   * 该任务及其下游任务不写入快照，并通过 logger 警告
+   * @param options.includeRunning 是否包含运行中的任务，恢复后会重新执行，默认不包含
+   * @returns 可 JSON 序列化的快照
+   */
+  public snapshot(options: { includeRunning?: boolean } = {}): ITaskSnapshot {
+    const now = this._clock.now();
+    const running = options.includeRunning
+      ? [...this._runningTasks.values()]
+      : [];
+    const waiting = [
+      ...this._retryingTasks.values(),
+      ...this._scheduledTasks.values(),
+      ...this._blockedTasks.values(),
+      ...[...this._lanes.values()].flatMap((lane) => [...lane]),
+      ...[...this._parked.values()].flatMap((queue) => [...queue]),
+    ];
+    const bySeq = (a: TaskInfo, b: TaskInfo) => a.seq - b.seq;
+    const candidates = [...running.sort(bySeq), ...waiting.sort(bySeq)].filter(
+      (task) => task.registered && this._taskIndex.has(task.id)
+    );
+
+    // 依赖排在下游任务之前，恢复时才能换算成新的任务id
+    const byId = new Map(candidates.map((task) => [task.id, task]));
+    const ordered: TaskInfo[] = [];
+    const included = new Set<number>();
+    const visit = (task: TaskInfo) => {
+      if (!byId.delete(task.id)) {
+        return;
+      }
+      for (const depId of task.waitingOn ?? []) {
+        const dep = byId.get(depId);
+        if (dep) {
+          visit(dep);
+        }
+        if (!included.has(depId)) {
+          this._logger.warn(
+            `[TaskMgr] 依赖的任务不在快照中，跳过 [${task.taskDesc}] -> ${depId}`,
+            { taskId: task.id, taskDesc: task.taskDesc, dependencyId: depId }
+          );
+          return;
+        }
+      }
+      included.add(task.id);
+      ordered.push(task);
+    };
+    candidates.forEach(visit);
+
+    const indexes = new Map(ordered.map((task, index) => [task.id, index]));
+    const tasks = ordered.map((task) => {
+      const item: ISnapshotTask = {
+        name: task.registered!.name,
+        payload: task.registered!.payload,
+        taskDesc: task.taskDesc,
+        priority: task.level,
+        weight: task.weight,
+        timeoutMs: task.timeoutMs,
+        key: task.key,
+        dedupe: task.dedupe,
+        rateGroup: task.rateGroup,
+        category: task.category,
+        resources: task.resources,
+        repeatEvery: task.repeatEvery,
+      };
+      if (task.retry) {
+        const { shouldRetry, ...retry } = task.retry;
+        item.retry = retry;
+      }
+      if (task.dueAt !== undefined && task.dueAt > now) {
+        item.runAt = task.dueAt;
+      }
+      if (task.repeatTimes !== undefined) {
+        item.repeatTimes = task.repeatTimes - task.runs;
+      }
+      const dependsOn = [...(task.waitingOn ?? [])].map(
+        (depId) => indexes.get(depId)!
+      );
+      if (dependsOn.length > 0) {
+        item.dependsOn = dependsOn;
+      }
+      if (this._runningTasks.has(task.id)) {
+        item.interrupted = true;
+      }
+      return item;
+    });
+    return { version: 1, createdAt: now, tasks };
+  }
+
+  /**
+   * 保存队列快照
+   * @param storage 快照存储
+   * @param options.includeRunning 是否包含运行中的任务
+   */
+  public persist(
+    storage: ITaskSnapshotStorage,
+    options: { includeRunning?: boolean } = {}
+  ): Promise<void> {
+    return storage.save(this.snapshot(options));
+  }
+
+  /**
+   * 添加任务并返回可 await 的句柄，ITask 上的回调照常触发
+   * @param task 任务
+   * @returns 任务句柄，任务失败、被取消或被 clear 时 reject
+   */
+  public runTask<T>(
+    task: ITask & { task: (ctx: ITaskContext) => TaskResult<T> }
+  ): TaskHandle<T> {
+    return this.pushTask(task, true).handle!;
+  }
+
+  /**
+   * 创建子队列：父队列 clear 时随之 clear，父队列暂停时随之暂停，
+   * 统计计数同时计入父队列
+   * @param options 配置项
+   * @returns 子队列
+   */
+  public createChild(options: ITaskMgrChildOptions = {}): TaskMgr {
+    const child = new TaskMgr({
+      clock: this._clock,
+      logger: this._logger,
+      onUnhandledError: this._onUnhandledError,
+      debug: this._debug,
+      ticker: this._ticker,
+      ...options,
+    });
+    child._parent = this;
+    child._name = options.name ?? "";
+    child._shareSlot = options.shareSlot ?? false;
+    child._statsSinks.push(...this._statsSinks);
+    this._children.add(child);
+    return child;
+  }
+
+  /**
+   * 清空子队列并与父队列解除关联，不再需要子队列时调用
+   */
+  public destroy(): void {
+    this.clear();
+    this._parent?._children.delete(this);
+    this._parent = undefined;
+    this._shareSlot = false;
+    this._statsSinks = this._stats ? [this._stats] : [];
+  }
+
+  /**
+   * 创建任务组
+   * @param name 组名
+   * @returns 任务组
+   */
+  public createGroup(name: string): TaskGroup {
+    return new TaskGroup(name, this);
+  }
+
+  /**
+   * 添加属于任务组的任务，由 TaskGroup 调用
+   * @internal
+   * @param group 任务组
+   * @param task 任务
+   * @param withHandle 是否创建任务句柄
+   * @returns 任务id和句柄
+   */
+  public addGroupTask(
+    group: TaskGroup,
+    task: ITask,
+    withHandle: boolean
+  ): { id: number; handle?: TaskHandle<any> } {
+    const info = this.pushTask(task, withHandle, group);
+    return { id: info.id, handle: info.handle };
+  }
+
+  /**
+   * 取消任务组中的任务，由 TaskGroup 调用
+   * 与组外调用方或其它任务组共享的任务只移出该组，不取消
+   * @internal
+   * @param group 任务组
+   * @param ids 任务id
+   */
+  public cancelGroupTasks(group: TaskGroup, ids: number[]): void {
+    const owned: number[] = [];
+    for (const id of ids) {
+      const task = this._taskIndex.get(id);
+      if (!task?.groups?.includes(group)) {
+        continue;
+      }
+      if (!task.ungrouped && task.groups.length === 1) {
+        owned.push(id);
+        continue;
+      }
+      task.groups = task.groups.filter((other) => other !== group);
+      group.settle(
+        id,
+        "cancelled",
+        new TaskCancelledError(task.taskDesc, false)
+      );
+    }
+    this.cancelTasks(owned);
+  }
+
+  /**
+   * 创建任务并按依赖情况放入等待集合或队列
+   * @param task 任务
+   * @param withHandle 是否创建任务句柄
+   * @param group 所属任务组
+   * @returns 任务信息
+   */
+  private pushTask(
+    task: ITask,
+    withHandle: boolean,
+    group?: TaskGroup
+  ): TaskInfo {
+    if (task.key !== undefined) {
+      const existing = this.dedupeTask(task, task.key);
+      if (existing) {
+        if (!group) {
+          existing.ungrouped = true;
+        } else if (!existing.groups?.includes(group)) {
+          (existing.groups ??= []).push(group);
+          group.track(existing.id, existing.taskDesc);
+        }
+        if (withHandle && !existing.handle) {
+          existing.handle = new TaskHandle(
+            existing.id,
+            existing.taskDesc,
+            this
+          );
+        }
+        return existing;
+      }
+    }
+    const level = this.resolvePriority(task);
+    const waitingOn = this.resolveDependencies(task);
+    if (
+      task.rateGroup !== undefined &&
+      !this._groupLimiters.has(task.rateGroup)
+    ) {
+      throw new Error(
+        `[TaskMgr] 未知的限流分组 "${task.rateGroup}" [${task.taskDesc}]`
+      );
+    }
+    const id = this._nextId++;
+    const now = this._clock.now();
+    const info: TaskInfo = {
+      id,
+      ...task,
+      level,
+      seq: this._nextSeq++,
+      enqueuedAt: now,
+      generation: 0,
+      attempt: 0,
+      errors: [],
+      runs: 0,
+    };
+    if (task.resources?.length) {
+      info.resourceModes = new Map();
+      for (const resource of task.resources) {
+        const name = typeof resource === "string" ? resource : resource.name;
+        const mode =
+          typeof resource === "string" ? "write" : resource.mode ?? "write";
+        if (info.resourceModes.get(name) !== "write") {
+          info.resourceModes.set(name, mode);
+        }
+      }
+    }
+    if (task.runAt !== undefined) {
+      info.dueAt = +task.runAt;
+    } else if (task.delayMs !== undefined) {
+      info.dueAt = now + task.delayMs;
+    }
+    if (withHandle) {
+      info.handle = new TaskHandle(id, task.taskDesc, this);
+      info.ownHandle = true;
+    }
+    if (this._debug) {
+      // 去掉首行的 "Error"
+      info.enqueueStack = new Error().stack?.split("\n").slice(1).join("\n");
+      info.attemptStartTimes = [];
+    }
+    if (group) {
+      info.groups = [group];
+      group.track(id, task.taskDesc);
+    } else {
+      info.ungrouped = true;
+    }
+    this._idle = false;
+    this._taskIndex.set(id, info);
+    if (task.key !== undefined) {
+      this._pendingByKey.set(task.key, info);
+    }
+    this.emitTaskEvent("enqueued", info);
+
+    // 依赖已失败或已取消，任务直接随之结束
+    for (const depId of waitingOn) {
+      const settled = this.getFailedRecord(depId);
+      if (settled) {
+        this.settleDependent(info, depId, settled);
+        return info;
+      }
+    }
+    for (const depId of waitingOn) {
+      if (this.isSettledTask(depId)) {
+        waitingOn.delete(depId);
+      }
+    }
+
+    if (waitingOn.size > 0) {
+      info.waitingOn = waitingOn;
+      this._blockedTasks.set(id, info);
+      for (const depId of waitingOn) {
+        let dependents = this._dependents.get(depId);
+        if (!dependents) {
+          dependents = new Set();
+          this._dependents.set(depId, dependents);
+        }
+        dependents.add(id);
+      }
+      return info;
+    }
+
+    this.admitTask(info);
+    this._step();
+    return info;
+  }
+
+  /**
+   * 按去重策略处理相同 key 的任务
+   * @param task 新任务
+   * @param key 去重键
+   * @returns 代替新任务执行的已有任务，新任务需要入队时返回 undefined
+   */
+  private dedupeTask(task: ITask, key: string): TaskInfo | undefined {
+    const policy = task.dedupe ?? this._dedupePolicy;
+    const pending = this._pendingByKey.get(key);
+    if (policy === "replacePending") {
+      if (pending) {
+        this.cancelTask(pending.id);
+      }
+      return undefined;
+    }
+    if (policy === "dropNew") {
+      return pending;
+    }
+    const existing = this._runningByKey.get(key) ?? pending;
+    if (existing) {
+      (existing.joiners ??= []).push(task);
+    }
+    return existing;
+  }
+
+  /**
+   * 任务结束后移出去重索引
+   * @param task 任务
+   */
+  private removeKey(task: TaskInfo): void {
+    if (task.key === undefined) {
+      return;
+    }
+    if (this._pendingByKey.get(task.key) === task) {
+      this._pendingByKey.delete(task.key);
+    }
+    if (this._runningByKey.get(task.key) === task) {
+      this._runningByKey.delete(task.key);
+    }
+  }
+
+  /**
+   * 校验任务依赖
+   * 依赖只能引用已由 addTask 返回的id，新任务的id此时尚未分配，因此依赖图天然无环
+   * @param task 任务
+   * @returns 去重后的依赖任务id
+   */
+  private resolveDependencies(task: ITask): Set<number> {
+    const deps = new Set(task.dependsOn ?? []);
+    const unknown = [...deps].filter(
+      (depId) => !this.isSettledTask(depId) && !this.findUnsettledTask(depId)
+    );
+    if (unknown.length > 0) {
+      throw new Error(
+        `[TaskMgr] 依赖的任务不存在 [${task.taskDesc}] -> ${unknown.join(", ")}`
+      );
+    }
+    return deps;
+  }
+
+  /**
+   * 是否为本次实例中已结束的任务
+   * id 按添加顺序递增，已分配但不在索引中的任务均已结束，无需逐个记录
+   * @param taskId 任务id
+   * @returns 是否已结束
+   */
+  private isSettledTask(taskId: number): boolean {
+    return (
+      taskId >= this._sessionStartId &&
+      taskId < this._nextId &&
+      !this._taskIndex.has(taskId)
+    );
+  }
+
+  /**
+   * 查找失败或取消的任务记录
+   * @param taskId 任务id
+   * @returns 记录，任务未结束或已成功时返回 undefined；记录已丢弃时按失败处理
+   */
+  private getFailedRecord(taskId: number): ISettledTask | undefined {
+    const settled = this._failedTasks.get(taskId);
+    if (settled || !this._failedIds.has(taskId)) {
+      return settled;
+    }
+    return {
+      outcome: "failed",
+      taskDesc: `#${taskId}`,
+      reason: new Error(
+        `[TaskMgr] 依赖的任务失败或已取消，记录已丢弃 [#${taskId}]`
+      ),
+    };
+  }
+
+  /**
+   * 查找尚未结束的任务（等待依赖、排队中或运行中）
+   * @param taskId 任务id
+   * @returns 任务，不存在或已取消时返回 undefined
+   */
+  private findUnsettledTask(taskId: number): TaskInfo | undefined {
+    return this._taskIndex.get(taskId);
+  }
+
+  /**
+   * 记录任务结束，通知任务句柄，并据此推进或终止等待它的任务
+   * @param task 任务
+   * @param outcome 结束方式
+   * @param value 成功时为结果，失败时为原因
+   * @param final 为 true 时重复执行的任务也就此结束
+   */
+  private settleTask(
+    task: TaskInfo,
+    outcome: TaskOutcome,
+    value?: any,
+    final = false
+  ): void {
+    if (this._taskIndex.get(task.id) !== task) {
+      return;
+    }
+    if (
+      outcome !== "cancelled" &&
+      !final &&
+      this.repeatTask(task, outcome, value)
+    ) {
+      return;
+    }
+    const settled: ISettledTask = { outcome, taskDesc: task.taskDesc };
+    if (outcome === "failed") {
+      settled.reason = value;
+    }
+    if (outcome !== "resolved") {
+      this._failedIds.add(task.id);
+      this._failedTasks.set(task.id, settled);
+      if (this._failedTasks.size > MAX_FAILED_RECORDS) {
+        this._failedTasks.delete(this._failedTasks.keys().next().value!);
+      }
+    }
+    this._taskIndex.delete(task.id);
+    this.removeKey(task);
+
+    try {
+      if (outcome === "resolved") {
+        task.handle?.settle("resolved", value);
+        this.emitTaskEvent("resolved", task, value);
+      } else if (outcome === "failed") {
+        task.handle?.settle("rejected", value);
+        this.emitTaskEvent("rejected", task, value);
+      } else {
+        task.handle?.settle(
+          "cancelled",
+          new TaskCancelledError(task.taskDesc, false)
+        );
+        this.emitTaskEvent("cancelled", task);
+        task.onCancel?.();
+      }
+      for (const group of task.groups ?? []) {
+        group.settle(
+          task.id,
+          outcome === "failed" ? "rejected" : outcome,
+          outcome === "cancelled"
+            ? new TaskCancelledError(task.taskDesc, false)
+            : value
+        );
+      }
+      this.notifyJoiners(task, task.joiners, outcome, value);
+    } finally {
+      this.settleDependents(task, settled);
+    }
+  }
+
+  /**
+   * 重复任务本次执行结束，还有剩余次数时安排下一次执行
+   * @param task 任务
+   * @param outcome 本次执行的结果
+   * @param value 成功时为结果，失败时为原因
+   * @returns true 表示已安排下一次执行，任务尚未结束
+   */
+  private repeatTask(
+    task: TaskInfo,
+    outcome: "resolved" | "failed",
+    value: any
+  ): boolean {
+    if (task.repeatEvery === undefined) {
+      return false;
+    }
+    task.runs++;
+    if (task.repeatTimes !== undefined && task.runs >= task.repeatTimes) {
+      return false;
+    }
+    if (outcome === "resolved") {
+      this.emitTaskEvent("resolved", task, value);
+    } else {
+      this.emitTaskEvent("rejected", task, value);
+    }
+    const joiners = task.joiners;
+    task.joiners = undefined;
+    task.attempt = 0;
+    task.errors = [];
+    task.startedAt = undefined;
+    task.attemptStartedAt = undefined;
+    if (task.attemptStartTimes) {
+      task.attemptStartTimes = [];
+    }
+    this.removeKey(task);
+    if (task.key !== undefined) {
+      this._pendingByKey.set(task.key, task);
+    }
+    // 至少等待1毫秒，避免同步任务在一次 _step 中反复执行
+    task.dueAt = this._clock.now() + Math.max(1, task.repeatEvery);
+    this.admitTask(task);
+    this.notifyJoiners(task, joiners, outcome, value);
+    return true;
+  }
+
+  /**
+   * 通知以 joinRunning 合并进来的任务
+   * @param task 实际执行的任务
+   * @param joiners 合并进来的任务
+   * @param outcome 结束方式
+   * @param value 成功时为结果，失败时为原因
+   */
+  private notifyJoiners(
+    task: TaskInfo,
+    joiners: ITask[] | undefined,
+    outcome: TaskOutcome,
+    value: any
+  ): void {
+    for (const joiner of joiners ?? []) {
+      if (outcome === "resolved") {
+        joiner.resolve?.(value);
+      } else if (outcome === "failed") {
+        this.notifyFailure(task, value, "未捕获的合并任务错误", joiner);
+      } else {
+        joiner.onCancel?.();
+      }
+    }
+  }
+
+  /**
+   * 根据任务的结束记录推进或终止等待它的任务
+   * 下游任务随之结束时不递归处理，加入队列由最外层调用逐个处理；
+   * reject/catch 抛出的异常不会中断处理，结束后抛出第一个异常，其余写入日志
+   * @param task 任务
+   * @param settled 结束记录
+   */
+  private settleDependents(task: TaskInfo, settled: ISettledTask): void {
+    this._settledQueue.push([task, settled]);
+    if (this._settlingDependents) {
+      return;
+    }
+    this._settlingDependents = true;
+    let failed = false;
+    let failure: any;
+    try {
+      for (let i = 0; i < this._settledQueue.length; i++) {
+        const [settledTask, record] = this._settledQueue[i];
+        const dependents = this._dependents.get(settledTask.id);
+        if (!dependents) {
+          continue;
+        }
+        this._dependents.delete(settledTask.id);
+        for (const dependentId of dependents) {
+          const dependent = this._blockedTasks.get(dependentId);
+          if (!dependent) {
+            continue;
+          }
+          try {
+            this.advanceDependent(dependent, settledTask.id, record);
+          } catch (error) {
+            if (!failed) {
+              failed = true;
+              failure = error;
+            } else {
+              this.logCallbackError(dependent, error);
+            }
+          }
+        }
+      }
+    } finally {
+      this._settledQueue = [];
+      this._settlingDependents = false;
+    }
+    if (failed) {
+      throw failure;
+    }
+  }
+
+  /**
+   * 依赖结束后推进或终止等待中的下游任务
+   * @param dependent 下游任务
+   * @param depId 依赖任务id
+   * @param settled 依赖任务的结束记录
+   */
+  private advanceDependent(
+    dependent: TaskInfo,
+    depId: number,
+    settled: ISettledTask
+  ): void {
+    if (settled.outcome !== "resolved") {
+      this.settleDependent(dependent, depId, settled);
+      return;
+    }
+    dependent.waitingOn!.delete(depId);
+    if (dependent.waitingOn!.size === 0) {
+      this._blockedTasks.delete(dependent.id);
+      dependent.waitingOn = undefined;
+      this.admitTask(dependent);
+    }
+  }
+
+  /**
+   * 依赖失败或取消时，结束等待中的下游任务，重复执行的任务不再重复
+   * @param task 下游任务
+   * @param depId 依赖任务id
+   * @param settled 依赖任务的结束记录
+   */
+  private settleDependent(
+    task: TaskInfo,
+    depId: number,
+    settled: ISettledTask
+  ): void {
+    this.unblockTask(task);
+    if (settled.outcome === "cancelled") {
+      this.settleTask(task, "cancelled");
+      return;
+    }
+    const error = this.wrapError(
+      task,
+      new TaskDependencyError(
+        task.taskDesc,
+        depId,
+        settled.taskDesc,
+        settled.reason
+      )
+    );
+    try {
+      this.notifyFailure(task, error, "未捕获的依赖任务错误");
+    } finally {
+      this.settleTask(task, "failed", error, true);
+    }
+  }
+
+  /**
+   * 将任务移出依赖等待集合
+   * @param task 任务
+   */
+  private unblockTask(task: TaskInfo): void {
+    this._blockedTasks.delete(task.id);
+    for (const depId of task.waitingOn ?? []) {
+      const dependents = this._dependents.get(depId);
+      dependents?.delete(task.id);
+      if (dependents?.size === 0) {
+        this._dependents.delete(depId);
+      }
+    }
+    task.waitingOn = undefined;
+  }
+
+  /**
+   * 通知任务失败：优先 reject，其次 catch，都没有时交给 onUnhandledError
+   * @param task 任务
+   * @param reason 失败原因
+   * @param message 未捕获时的日志描述
+   * @param joiner 以 joinRunning 合并进来的任务，传入时通知它而不是 task
+   */
+  private notifyFailure(
+    task: TaskInfo,
+    reason: any,
+    message: string,
+    joiner?: ITask
+  ): void {
+    const target = joiner ?? task;
+    if (target.reject) {
+      target.reject(reason);
+    } else if (target.catch) {
+      target.catch(reason);
+    } else if (joiner || !task.ownHandle) {
+      // 通过 runTask 添加的任务由句柄接收失败
+      this.reportUnhandled(task, reason, message, target.taskDesc);
+    }
+  }
+
+  /**
+   * 报告没有 reject/catch 处理的任务错误
+   * @param task 任务
+   * @param error 错误
+   * @param message 日志描述
+   * @param taskDesc 日志中的任务描述，默认使用 task 的描述
+   */
+  private reportUnhandled(
+    task: TaskInfo,
+    error: any,
+    message: string,
+    taskDesc: string = task.taskDesc
+  ): void {
+    if (!this._onUnhandledError) {
+      this._logger.error(`[TaskMgr] ${message} [${taskDesc}]:`, {
+        taskId: task.id,
+        taskDesc,
+        error,
+      });
+      return;
+    }
+    try {
+      this._onUnhandledError(error, {
+        ...this.createTaskEvent(task, this._clock.now()),
+        taskDesc,
+      });
+    } catch (hookError) {
+      this._logger.error(`[TaskMgr] onUnhandledError 异常 [${taskDesc}]:`, {
+        taskId: task.id,
+        taskDesc,
+        error: hookError,
+      });
+    }
+  }
+
+  /**
+   * 记录回调抛出的异常，一次调度中只有第一个异常会抛给调用方，其余的写入日志
+   * @param task 任务
+   * @param error 异常
+   */
+  private logCallbackError(task: TaskInfo, error: any): void {
+    this._logger.error(`[TaskMgr] 回调异常 [${task.taskDesc}]:`, {
+      taskId: task.id,
+      taskDesc: task.taskDesc,
+      error,
+    });
+  }
+
+  /**
+   * 解析任务优先级
+   * @param task 任务
+   * @returns 优先级数值
+   */
+  private resolvePriority(task: ITask): number {
+    const priority = task.priority ?? 0;
+    if (typeof priority === "number") {
+      return priority;
+    }
+    if (!(priority in this._priorities)) {
+      throw new Error(
+        `[TaskMgr] 未知的优先级 "${priority}" [${task.taskDesc}]`
+      );
+    }
+    return this._priorities[priority];
+  }
+
+  /**
+   * 任务可以开始排队：已到执行时间时加入等待队列，否则等到 dueAt
+   * @param task 任务
+   */
+  private admitTask(task: TaskInfo): void {
+    const delay = (task.dueAt ?? 0) - this._clock.now();
+    if (delay > 0) {
+      const sessionId = this._sessionId;
+      this._scheduledTasks.set(task.id, task);
+      task.scheduleTimer = this._clock.setTimeout(() => {
+        task.scheduleTimer = undefined;
+        if (
+          this._sessionId !== sessionId ||
+          !this._scheduledTasks.delete(task.id)
+        ) {
+          return;
+        }
+        this.admitTask(task);
+        this._step();
+      }, Math.min(delay, MAX_TIMER_DELAY));
+      return;
+    }
+    // 从此刻开始排队
+    task.seq = this._nextSeq++;
+    task.enqueuedAt = this._clock.now();
+    this.enqueue(task);
+  }
+
+  /**
+   * 任务加入对应优先级队列
+   * @param task 任务
+   * @param front 是否插入队首，默认插入队尾
+   */
+  private enqueue(task: TaskInfo, front: boolean = false): void {
+    let lane = this._lanes.get(task.level);
+    if (!lane) {
+      lane = new TaskQueue();
+      this._lanes.set(task.level, lane);
+    }
+    task.queueNode = front ? lane.unshift(task) : lane.push(task);
+  }
+
+  /**
+   * 获取下一个应执行的任务：有效优先级最高者，相同时先入队者优先
+   * @returns 任务，队列为空时返回 undefined
+   */
+  private peekTask(): TaskInfo | undefined {
+    const now = this._clock.now();
+    let best: TaskInfo | undefined;
+    let bestLevel = 0;
+    // 每条队列的队首等待最久，老化后的有效优先级也最高，只需比较队首
+    for (const lane of this._lanes.values()) {
+      const head = lane.peek()!;
+      const level = this.getEffectiveLevel(head, now);
+      if (
+        !best ||
+        level > bestLevel ||
+        (level === bestLevel && head.seq < best.seq)
+      ) {
+        best = head;
+        bestLevel = level;
+      }
+    }
+    return best;
+  }
+
+  /**
+   * 获取任务老化后的有效优先级
+   * @param task 任务
+   * @param now 当前时间
+   * @returns 有效优先级
+   */
+  private getEffectiveLevel(task: TaskInfo, now: number): number {
+    if (this._agingMs > 0) {
+      return task.level + Math.floor((now - task.enqueuedAt) / this._agingMs);
+    }
+    return task.level;
+  }
+
+  /**
+   * 将排队中的任务移出所在队列
+   * @param task 任务
+   */
+  private dequeue(task: TaskInfo): void {
+    if (task.parkedOn !== undefined) {
+      this.unparkTask(task);
+    } else {
+      this.removeFromLane(task);
+    }
+    if (this._lanes.size === 0 && this._parked.size === 0) {
+      this._events.emit("drain");
+    }
+  }
+
+  /**
+   * 将任务移出优先级队列
+   * @param task 任务
+   */
+  private removeFromLane(task: TaskInfo): void {
+    const lane = this._lanes.get(task.level)!;
+    lane.remove(task.queueNode!);
+    task.queueNode = undefined;
+    if (lane.size === 0) {
+      this._lanes.delete(task.level);
+    }
+  }
+
+  /**
+   * 将优先级队列中不能启动的任务暂存，并预留其资源
+   * @param task 任务
+   * @param key 暂存队列的键
+   */
+  private parkTask(task: TaskInfo, key: string): void {
+    this.removeFromLane(task);
+    task.waiterNodes = [];
+    for (const [name, mode] of task.resourceModes ?? []) {
+      let waiters = this._resourceWaiters.get(name);
+      if (!waiters) {
+        waiters = { all: new TaskQueue(), writers: new TaskQueue() };
+        this._resourceWaiters.set(name, waiters);
+      }
+      task.waiterNodes.push([waiters.all, insertBySeq(waiters.all, task)]);
+      if (mode === "write") {
+        task.waiterNodes.push([
+          waiters.writers,
+          insertBySeq(waiters.writers, task),
+        ]);
+      }
+    }
+    this.addToPark(task, key);
+  }
+
+  /**
+   * 加入暂存队列
+   * @param task 任务
+   * @param key 暂存队列的键
+   */
+  private addToPark(task: TaskInfo, key: string): void {
+    let queue = this._parked.get(key);
+    if (!queue) {
+      queue = new TaskQueue();
+      this._parked.set(key, queue);
+    }
+    task.parkedOn = key;
+    task.queueNode = insertBySeq(queue, task);
+  }
+
+  /**
+   * 移出暂存队列
+   * @param task 任务
+   */
+  private removeFromPark(task: TaskInfo): void {
+    const key = task.parkedOn!;
+    const queue = this._parked.get(key)!;
+    queue.remove(task.queueNode!);
+    task.queueNode = undefined;
+    task.parkedOn = undefined;
+    if (queue.size === 0) {
+      this._parked.delete(key);
+      this._dirtyParks.delete(key);
+    }
+  }
+
+  /**
+   * 任务离开暂存（启动或取消），释放预留的资源，
+   * 所在队列和等待这些资源的队列需要重新检查
+   * @param task 任务
+   */
+  private unparkTask(task: TaskInfo): void {
+    const key = task.parkedOn!;
+    this.removeFromPark(task);
+    if (this._parked.has(key)) {
+      this._dirtyParks.add(key);
+    }
+    for (const [queue, node] of task.waiterNodes ?? []) {
+      queue.remove(node);
+    }
+    task.waiterNodes = undefined;
+    for (const name of task.resourceModes?.keys() ?? []) {
+      if (this._resourceWaiters.get(name)?.all.size === 0) {
+        this._resourceWaiters.delete(name);
+      }
+      this.markResourceDirty(name);
+    }
+  }
+
+  /**
+   * 资源释放或不再被预留，等待该资源的暂存队列需要重新检查
+   * @param name 资源名
+   */
+  private markResourceDirty(name: string): void {
+    const key = `resource:${name}`;
+    if (this._parked.has(key)) {
+      this._dirtyParks.add(key);
+    }
+  }
+
+  /**
+   * 监听事件
+   * @param event 事件名
+   * @param listener 监听器
+   * @returns 取消监听的函数
+   */
+  public on<K extends keyof ITaskMgrEvents>(
+    event: K,
+    listener: ITaskMgrEvents[K]
+  ): () => void {
+    return this._events.on(event, listener);
+  }
+
+  /**
+   * 监听事件，触发一次后自动取消
+   * @param event 事件名
+   * @param listener 监听器
+   * @returns 取消监听的函数
+   */
+  public once<K extends keyof ITaskMgrEvents>(
+    event: K,
+    listener: ITaskMgrEvents[K]
+  ): () => void {
+    return this._events.once(event, listener);
+  }
+
+  /**
+   * 取消监听
+   * @param event 事件名
+   * @param listener 监听器
+   */
+  public off<K extends keyof ITaskMgrEvents>(
+    event: K,
+    listener: ITaskMgrEvents[K]
+  ): void {
+    this._events.off(event, listener);
+  }
+
+  /**
+   * 注册中间件，对之后开始的尝试生效
+   * @param middleware 中间件
+   * @returns 移除中间件的函数
+   */
+  public use(middleware: TaskMiddleware): () => void {
+    // 替换而不是修改数组，执行中的调用链不受影响
+    this._middlewares = [...this._middlewares, middleware];
+    return () => {
+      this._middlewares = this._middlewares.filter((m) => m !== middleware);
+    };
+  }
+
+  /**
+   * 等待队列空闲（没有等待中或运行中的任务）
+   * @returns 空闲时 resolve
+   */
+  public whenIdle(): Promise<void> {
+    if (this._idle) {
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => {
+      this._events.once("idle", resolve);
+    });
+  }
+
+  /**
+   * 获取运行统计
+   * 未开启 stats 时只有队列和运行中的任务数，计数均为0
+   * @returns 运行统计
+   */
+  public getStats(): ITaskStats {
+    let queued = 0;
+    for (const queue of [...this._lanes.values(), ...this._parked.values()]) {
+      queued += queue.size;
+    }
+    const summary = this._stats?.summarize() ?? {
+      enqueued: 0,
+      succeeded: 0,
+      failed: 0,
+      cancelled: 0,
+      discarded: 0,
+      categories: {},
+    };
+    return {
+      ...summary,
+      queued,
+      blocked: this._blockedTasks.size,
+      running: this._runningTasks.size,
+      scheduled: this._scheduledTasks.size,
+    };
+  }
+
+  /**
+   * 清空已收集的计数和耗时
+   */
+  public resetStats(): void {
+    this._stats?.reset();
+  }
+
+  /**
+   * 派发任务事件
+   * @param event 事件名
+   * @param task 任务
+   * @param value 结果或失败原因
+   */
+  private emitTaskEvent(
+    event: "enqueued" | "started" | "cancelled" | "discarded",
+    task: TaskInfo
+  ): void;
+  private emitTaskEvent(
+    event: "resolved" | "rejected",
+    task: TaskInfo,
+    value: any
+  ): void;
+  private emitTaskEvent(
+    event: TaskStatsEvent,
+    task: TaskInfo,
+    value?: any
+  ): void {
+    const listened = this._events.has(event);
+    if (!listened && this._statsSinks.length === 0) {
+      return;
+    }
+    const settled =
+      event === "resolved" ||
+      event === "rejected" ||
+      event === "cancelled" ||
+      event === "discarded";
+    const info = this.createTaskEvent(
+      task,
+      settled ? this._clock.now() : undefined
+    );
+    for (const stats of this._statsSinks) {
+      stats.record(
+        event,
+        task.category ?? task.taskDesc,
+        event === "started" ? info.waitMs : info.runMs
+      );
+    }
+    if (!listened) {
+      return;
+    }
+    if (event === "resolved" || event === "rejected") {
+      this._events.emit(event, info, value);
+    } else {
+      this._events.emit(event, info);
+    }
+  }
+
+  /**
+   * 创建任务事件信息
+   * @param task 任务
+   * @param settledAt 结束时间，未结束时不传
+   * @returns 任务事件信息
+   */
+  private createTaskEvent(task: TaskInfo, settledAt?: number): ITaskEvent {
+    const info: ITaskEvent = {
+      id: task.id,
+      taskDesc: task.taskDesc,
+      enqueuedAt: task.enqueuedAt,
+      startedAt: task.startedAt,
+    };
+    if (task.startedAt !== undefined) {
+      info.waitMs = task.startedAt - task.enqueuedAt;
+    }
+    if (settledAt !== undefined) {
+      info.settledAt = settledAt;
+      if (task.startedAt !== undefined) {
+        info.runMs = settledAt - task.startedAt;
+      }
+    }
+    return info;
+  }
+
+  /**
+   * 没有等待中或运行中的任务时派发 idle
+   */
+  private checkIdle(): void {
+    if (
+      this._idle ||
+      this._lanes.size > 0 ||
+      this._parked.size > 0 ||
+      this._runningTasks.size > 0 ||
+      this._retryingTasks.size > 0 ||
+      this._scheduledTasks.size > 0 ||
+      this._blockedTasks.size > 0
+    ) {
+      return;
+    }
+    this._idle = true;
+    this._events.emit("idle");
+  }
 
-/**
- * 微型工作队列
- */
-export class TaskMgr {
-  private _nextId: number = 1;
-  private _running: boolean = false;
-  /** 正在运行的任务集合（包含异步不等待的任务） */
-  private _runningTasks: Map<number, TaskInfo> = new Map();
-  /** 取消任务集合支持cancel取消任务 */
-  private _taskCancelSet: Set<number> = new Set();
-  /** 实例ID，用于解决 clear 后旧任务回调污染问题 */
-  private _sessionId: number = 0;
+  /**
+   * 取消任务
+   * 运行中的任务会收到 abort 信号；异步任务立即结束并释放槽位，其后续结果被忽略；
+   * 已结束或 clear 前的任务id会被忽略
+   * @param id 任务id
+   */
+  public cancelTask(id: number): void {
+    this.cancelTasks([id]);
+  }
 
   /**
-   * 创建工作队列管理
-   * @returns TaskMgr
+   * 批量取消任务
+   * 全部取消后才启动后续任务，不会因为前面的任务释放槽位而先启动后面待取消的任务
+   * @param ids 任务id列表
+   */
+  public cancelTasks(ids: number[]): void {
+    try {
+      for (const id of ids) {
+        this.cancelTaskWithoutStep(id);
+      }
+    } finally {
+      this._step();
+    }
+  }
+
+  /**
+   * 取消任务，但不推进队列
+   * @param id 任务id
    */
-  public static create(): TaskMgr {
-    return new TaskMgr();
+  private cancelTaskWithoutStep(id: number): void {
+    const task = this.findUnsettledTask(id);
+    if (!task) {
+      // id 不会复用，找不到的任务已经结束，不会影响之后添加的任务
+      return;
+    }
+    if (task.waitingOn) {
+      this.unblockTask(task);
+    } else if (this._scheduledTasks.delete(id)) {
+      this._clock.clearTimeout(task.scheduleTimer);
+      task.scheduleTimer = undefined;
+    } else if (this._retryingTasks.delete(id)) {
+      this._clock.clearTimeout(task.retryTimer);
+      task.retryTimer = undefined;
+    } else if (task.queueNode) {
+      this.dequeue(task);
+    } else if (task.executing) {
+      // 正在同步执行的任务在返回后处理
+      this._taskCancelSet.add(id);
+      task.controller?.abort();
+    } else {
+      // 异步执行中或阻塞退避中的任务
+      task.controller?.abort();
+      task.generation++;
+      this.releaseTask(task);
+    }
+    this.settleTask(task, "cancelled");
+  }
+
+  /** 是否已暂停，父队列暂停时子队列同样视为暂停 */
+  public get isPaused(): boolean {
+    return this._paused || (this._parent?.isPaused ?? false);
   }
 
-  private _tasks: TaskInfo[] = [];
+  /**
+   * 暂停队列：不再启动新任务，已在运行的任务正常结束并触发回调
+   */
+  public pause(): void {
+    this._paused = true;
+  }
 
   /**
-   * 添加任务
+   * 恢复队列并继续启动任务
+   */
+  public resume(): void {
+    if (!this._paused) {
+      return;
+    }
+    this._paused = false;
+    this._resumeTree();
+  }
+
+  /**
+   * 驱动本队列和所有未暂停的子孙队列，暂停期间加入子孙队列的任务随之启动
+   */
+  private _resumeTree(): void {
+    this._step();
+    for (const child of this._children) {
+      if (!child._paused) {
+        child._resumeTree();
+      }
+    }
+  }
+
+  /**
+   * 启动下一个待执行任务，暂停时也可使用，便于逐个调试
+   * @returns 是否启动了任务，队列为空或槽位不足时返回 false
+   */
+  public stepOnce(): boolean {
+    const task = this.takeNextTask();
+    if (!task) {
+      return false;
+    }
+    this.handleFunctionTask(task);
+    return true;
+  }
+
+  /**
+   * 按优先级和队列顺序启动任务，直到槽位占满、队列为空或已暂停
+   * 驱动循环中再次调用（同步任务结束、任务中添加任务等）只做标记，由外层循环继续，不会递归
+   */
+  private _step(): void {
+    if (this._driving) {
+      this._stepRequested = true;
+      return;
+    }
+    // 已让出事件循环时等计时器继续调度
+    if (this._yieldTimer === undefined) {
+      this._driving = true;
+      try {
+        this.drive();
+      } finally {
+        this._driving = false;
+      }
+    }
+    this.releaseParentSlot();
+    this.checkIdle();
+  }
+
+  /**
+   * 驱动循环，达到 yieldEvery 或 yieldAfterMs 时设置计时器并退出
+   * 任务回调抛出的异常不会中断循环，结束后抛出第一个异常，其余写入日志
+   */
+  private drive(): void {
+    const startedAt = this._clock.now();
+    let started = 0;
+    let failed = false;
+    let failure: any;
+    do {
+      this._stepRequested = false;
+      while (!this.isPaused) {
+        if (
+          started > 0 &&
+          (this._lanes.size > 0 || this._parked.size > 0) &&
+          this.shouldYield(started, startedAt)
+        ) {
+          this._yieldTimer = this._clock.setTimeout(() => {
+            this._yieldTimer = undefined;
+            this._step();
+          }, 0);
+          break;
+        }
+        const task = this.takeNextTask();
+        if (!task) {
+          break;
+        }
+        try {
+          this.handleFunctionTask(task);
+        } catch (error) {
+          if (!failed) {
+            failed = true;
+            failure = error;
+          } else {
+            this.logCallbackError(task, error);
+          }
+        }
+        started++;
+      }
+    } while (this._stepRequested && this._yieldTimer === undefined);
+    if (failed) {
+      throw failure;
+    }
+  }
+
+  /**
+   * 是否应让出事件循环
+   * @param started 本次调度已启动的任务数
+   * @param startedAt 本次调度的开始时间
+   * @returns 是否让出
+   */
+  private shouldYield(started: number, startedAt: number): boolean {
+    return (
+      (this._yieldEvery > 0 && started >= this._yieldEvery) ||
+      (this._yieldAfterMs > 0 &&
+        this._clock.now() - startedAt >= this._yieldAfterMs)
+    );
+  }
+
+  /**
+   * 取出下一个能启动的任务并占用槽位、额度和资源
+   * @returns 任务，没有能启动的任务时返回 undefined
+   */
+  private takeNextTask(): TaskInfo | undefined {
+    let task = this.peekTask();
+    if (!task && this._parked.size === 0) {
+      return undefined;
+    }
+    const now = this._clock.now();
+    // 队首任务不受限流和资源约束、也没有暂存的任务时直接启动，否则按顺序挑选能启动的任务
+    if (
+      !task ||
+      this._rateLimiter ||
+      this._groupLimiters.size > 0 ||
+      this._parked.size > 0 ||
+      task.resourceModes
+    ) {
+      task = this.pickRunnableTask(now);
+      if (!task) {
+        return undefined;
+      }
+    }
+    const slots = this.getTaskSlots(task);
+    // 队首任务槽位不足时等待，保证任务按 FIFO 顺序启动；
+    // 空闲时总是允许启动，避免权重大于上限的任务永远无法执行
+    if (this._usedSlots > 0 && this._usedSlots + slots > this._maxConcurrency) {
+      return undefined;
+    }
+    if (!this.acquireParentSlot()) {
+      return undefined;
+    }
+    this.dequeue(task);
+    this._rateLimiter?.acquire(now);
+    if (task.rateGroup !== undefined) {
+      this._groupLimiters.get(task.rateGroup)!.acquire(now);
+    }
+    if (task.resourceModes) {
+      lockResources(task.resourceModes, this._resourceLocks);
+    }
+    this._usedSlots += slots;
+    this._runningTasks.set(task.id, task);
+    return task;
+  }
+
+  /**
+   * 共享父队列槽位的子队列，需要父队列中的槽位任务开始执行后才能启动任务
+   * @returns 是否可以启动任务
+   */
+  private acquireParentSlot(): boolean {
+    if (!this._shareSlot) {
+      return true;
+    }
+    if (this._parentSlot) {
+      return this._parentSlot.release !== undefined;
+    }
+    const parent = this._parent!;
+    const slot: IParentSlot = { parentSession: parent._sessionId };
+    this._parentSlot = slot;
+    slot.id = parent.addTask({
+      taskDesc: `[子队列] ${this._name}`,
+      timeoutMs: 0,
+      task: () =>
+        new Promise<void>((resolve) => {
+          slot.release = resolve;
+          this._step();
+        }),
+      onCancel: () => {
+        // 槽位任务在父队列中被取消，子队列随之 clear
+        if (this._parentSlot === slot) {
+          this._parentSlot = undefined;
+          this.clear();
+        }
+      },
+    });
+    return false;
+  }
+
+  /**
+   * 没有运行中的任务时归还父队列中的槽位，之后有任务时重新申请
+   */
+  private releaseParentSlot(): void {
+    const slot = this._parentSlot;
+    if (slot?.release && this._runningTasks.size === 0) {
+      this._parentSlot = undefined;
+      slot.release();
+    }
+  }
+
+  /**
+   * 在限流和资源约束下挑选下一个任务，按优先级和入队顺序找到第一个能启动的任务。
+   * 不能启动的队首任务按原因暂存并预留其资源：同一分组或资源上等待的任务按入队顺序执行，
+   * 后入队的冲突任务排在暂存的任务之后。暂存队列只在阻塞原因可能解除时检查队首，
+   * 每次挑选的耗时与等待的任务数无关
+   * @param now 当前时间
+   * @returns 任务，都在等待时返回 undefined；等待额度时在额度恢复时唤醒，
+   * 等待资源时在占用资源的任务结束后唤醒
+   */
+  private pickRunnableTask(now: number): TaskInfo | undefined {
+    const waitMs = this._rateLimiter?.getWaitTime(now) ?? 0;
+    if (waitMs > 0) {
+      this.scheduleRateWakeup(now + waitMs);
+      return undefined;
+    }
+
+    let best: TaskInfo | undefined;
+    let bestLevel = 0;
+    const consider = (task: TaskInfo) => {
+      const level = this.getEffectiveLevel(task, now);
+      if (
+        !best ||
+        level > bestLevel ||
+        (level === bestLevel && task.seq < best.seq)
+      ) {
+        best = task;
+        bestLevel = level;
+      }
+    };
+
+    // 按队首的优先级依次检查，队首不能启动时暂存，直到找到能启动的任务
+    const lanes = [...this._lanes.values()].sort((a, b) => {
+      const headA = a.peek()!;
+      const headB = b.peek()!;
+      const diff =
+        this.getEffectiveLevel(headB, now) - this.getEffectiveLevel(headA, now);
+      return diff !== 0 ? diff : headA.seq - headB.seq;
+    });
+    for (const lane of lanes) {
+      let head = lane.peek();
+      let blocker: string | undefined;
+      while (head && (blocker = this.getBlocker(head, now)) !== undefined) {
+        this.parkTask(head, blocker);
+        head = lane.peek();
+      }
+      if (head) {
+        consider(head);
+        break;
+      }
+    }
+
+    // 暂存队列的队首：仍因同一原因阻塞时不再检查，因其它原因阻塞时转入对应队列
+    for (const key of [...this._dirtyParks]) {
+      const queue = this._parked.get(key);
+      let head = queue?.peek();
+      while (head) {
+        const blocker = this.getBlocker(head, now);
+        if (blocker === undefined) {
+          break;
+        }
+        if (blocker === key) {
+          head = undefined;
+          break;
+        }
+        this.removeFromPark(head);
+        this.addToPark(head, blocker);
+        head = queue!.peek();
+      }
+      if (head) {
+        consider(head);
+      } else {
+        this._dirtyParks.delete(key);
+      }
+    }
+    return best;
+  }
+
+  /**
+   * 获取任务不能启动的原因
    * @param task 任务
-   * @returns 任务id
+   * @param now 当前时间
+   * @returns 暂存队列的键，能启动时返回 undefined；分组额度不足时安排唤醒
    */
-  public addTask(task: ITask): number {
-    const id = (this._nextId++ << this._sessionId) >>> 0;
-    this._tasks.push({ id, ...task });
-    if (!this._running) {
-      this._running = true;
+  private getBlocker(task: TaskInfo, now: number): string | undefined {
+    for (const [name, mode] of task.resourceModes ?? []) {
+      const lock = this._resourceLocks.get(name);
+      if (lock && (lock.writer || (mode === "write" && lock.readers > 0))) {
+        return `resource:${name}`;
+      }
+      // 先入队的冲突任务仍在等待
+      const waiters = this._resourceWaiters.get(name);
+      const first =
+        mode === "write" ? waiters?.all.peek() : waiters?.writers.peek();
+      if (first && first.seq < task.seq) {
+        return `resource:${name}`;
+      }
+    }
+    const group = task.rateGroup;
+    if (group !== undefined) {
+      const waitMs = this._groupLimiters.get(group)!.getWaitTime(now);
+      if (waitMs > 0) {
+        this.scheduleRateWakeup(now + waitMs);
+        return `group:${group}`;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * 在限流额度恢复时重新驱动队列，已有更早的唤醒时不重复设置
+   * @param due 唤醒时间
+   */
+  private scheduleRateWakeup(due: number): void {
+    if (this._rateTimer !== undefined && this._rateTimerDue <= due) {
+      return;
+    }
+    this._clock.clearTimeout(this._rateTimer);
+    this._rateTimerDue = due;
+    this._rateTimer = this._clock.setTimeout(() => {
+      this._rateTimer = undefined;
+      for (const key of this._parked.keys()) {
+        if (key.startsWith("group:")) {
+          this._dirtyParks.add(key);
+        }
+      }
       this._step();
+    }, Math.max(0, due - this._clock.now()));
+  }
+
+  /**
+   * 获取任务占用的槽位数
+   * @param task 任务
+   * @returns 槽位数
+   */
+  private getTaskSlots(task: TaskInfo): number {
+    if (task.donotWaitAsync) {
+      return 0;
     }
-    return id;
+    return Math.max(0, task.weight ?? 1);
   }
 
   /**
-   * 取消任务
-   * @param id 任务id
+   * 任务结束，归还槽位
+   * @param task 任务
    */
-  public cancelTask(id: number): void {
-    this._taskCancelSet.add(id);
+  private releaseTask(task: TaskInfo): void {
+    // 回调抛错时会再次进入 catch 分支，避免重复归还槽位
+    if (!this._runningTasks.delete(task.id)) {
+      return;
+    }
+    this._usedSlots -= this.getTaskSlots(task);
+    for (const [name, mode] of task.resourceModes ?? []) {
+      const lock = this._resourceLocks.get(name)!;
+      if (mode === "write") {
+        lock.writer = false;
+      } else {
+        lock.readers--;
+      }
+      if (!lock.writer && lock.readers === 0) {
+        this._resourceLocks.delete(name);
+      }
+      this.markResourceDirty(name);
+    }
+    this._clock.clearTimeout(task.timeoutTimer);
+    this._clock.clearTimeout(task.retryTimer);
+    task.timeoutTimer = undefined;
+    task.retryTimer = undefined;
   }
+
   /**
-   * 执行下一个任务
+   * 为异步任务启动超时计时
+   * @param task 任务
+   * @param sessionId 任务启动时的实例ID
+   * @param generation 本次尝试的序号
    */
-  private _step(): void {
-    const task = this._tasks.shift();
-    if (!task) {
-      this._running = false;
+  private startTimeout(
+    task: TaskInfo,
+    sessionId: number,
+    generation: number
+  ): void {
+    const timeoutMs = task.timeoutMs ?? this._defaultTimeoutMs;
+    if (!(timeoutMs > 0)) {
       return;
     }
-    if (this.checkAndClearCanceled(task.id)) {
+    task.timeoutTimer = this._clock.setTimeout(() => {
+      task.timeoutTimer = undefined;
+      if (this._sessionId !== sessionId || task.generation !== generation) {
+        return;
+      }
+      // 与 clear 后丢弃旧回调相同，原 Promise 之后的结果不再处理
+      task.generation++;
+      task.controller?.abort();
+      this.failTask(
+        task,
+        new TaskTimeoutError(
+          task.taskDesc,
+          this._clock.now() - task.attemptStartedAt!
+        ),
+        "任务超时"
+      );
+    }, timeoutMs);
+  }
+
+  /**
+   * 按重试策略安排下一次尝试
+   * @param task 任务
+   * @param error 本次尝试的错误
+   * @returns true 表示已安排重试
+   */
+  private retryTask(task: TaskInfo, error: any): boolean {
+    const retry = task.retry;
+    if (!retry) {
+      return false;
+    }
+    task.errors.push(error);
+    this._clock.clearTimeout(task.timeoutTimer);
+    task.timeoutTimer = undefined;
+    if (
+      task.attempt >= (retry.maxAttempts ?? 3) ||
+      (retry.shouldRetry && !retry.shouldRetry(error, task.attempt))
+    ) {
+      return false;
+    }
+
+    const sessionId = this._sessionId;
+    const blockQueue = retry.blockQueue !== false;
+    const delayMs = getRetryDelay(retry, task.attempt);
+    this._logger.debug(
+      `[TaskMgr] 任务失败，${delayMs}ms 后重试 [${task.taskDesc}]`,
+      {
+        taskId: task.id,
+        taskDesc: task.taskDesc,
+        attempt: task.attempt,
+        delayMs,
+        error,
+      }
+    );
+    if (!blockQueue) {
+      // 退避期间让出槽位，到期后回到所在优先级队列的队首
+      this.releaseTask(task);
+      this._retryingTasks.set(task.id, task);
+    }
+    task.retryTimer = this._clock.setTimeout(() => {
+      task.retryTimer = undefined;
+      if (this._sessionId !== sessionId) {
+        return;
+      }
+      if (blockQueue) {
+        this.handleFunctionTask(task);
+        return;
+      }
+      this._retryingTasks.delete(task.id);
+      this.enqueue(task, true);
+      this._step();
+    }, delayMs);
+    if (!blockQueue) {
       this._step();
+    }
+    return true;
+  }
+
+  /**
+   * 异步任务失败：重试或释放槽位并通知失败
+   * @param task 任务
+   * @param reason 失败原因
+   * @param message 未捕获时的日志描述
+   */
+  private failTask(task: TaskInfo, reason: any, message: string): void {
+    if (this.retryTask(task, reason)) {
       return;
     }
-    this._runningTasks.set(task.id, task);
-    this.handleFunctionTask(task);
+    this.releaseTask(task);
+    if (!this.checkAndClearCanceled(task.id)) {
+      const error = this.getFinalError(task, reason);
+      try {
+        this.notifyFailure(task, error, message);
+      } finally {
+        this.settleTask(task, "failed", error);
+      }
+    }
+    this._step();
+  }
+
+  /**
+   * 获取最终交给 reject/catch 的错误，配置了重试的任务汇总每次尝试的错误
+   * @param task 任务
+   * @param reason 最后一次尝试的错误
+   * @returns 错误
+   */
+  private getFinalError(task: TaskInfo, reason: any): any {
+    if (!task.retry) {
+      return this.wrapError(task, reason);
+    }
+    return this.wrapError(task, new TaskRetryError(task.taskDesc, task.errors));
+  }
+
+  /**
+   * 调试模式下将失败原因包装为 TaskError
+   * @param task 任务
+   * @param reason 失败原因
+   * @returns 错误
+   */
+  private wrapError(task: TaskInfo, reason: any): any {
+    if (!this._debug) {
+      return reason;
+    }
+    return new TaskError(task.taskDesc, task.id, reason, task.enqueueStack, {
+      enqueuedAt: task.enqueuedAt,
+      attemptStartTimes: [...(task.attemptStartTimes ?? [])],
+      failedAt: this._clock.now(),
+    });
   }
 
   /**
@@ -85,7 +2792,6 @@ export class TaskMgr {
   checkAndClearCanceled(taskId: number): boolean {
     if (this._taskCancelSet.has(taskId)) {
       this._taskCancelSet.delete(taskId);
-      this._runningTasks.delete(taskId);
       return true;
     }
     return false;
@@ -98,88 +2804,163 @@ export class TaskMgr {
    */
   handleFunctionTask(task: TaskInfo): void {
     let isAsync = false;
+    let retrying = false;
+    let succeeded = false;
     // 捕获当前实例ID
     const currentSession = this._sessionId;
+    // 每次尝试使用新的 abort 信号，旧尝试的结果通过 generation 识别并丢弃
+    const generation = ++task.generation;
+    task.attempt++;
+    task.handle?.markRunning();
+    task.attemptStartedAt = this._clock.now();
+    task.attemptStartTimes?.push(task.attemptStartedAt);
+    if (task.attempt === 1) {
+      task.startedAt = task.attemptStartedAt;
+      if (task.key !== undefined) {
+        this.removeKey(task);
+        this._runningByKey.set(task.key, task);
+      }
+      this.emitTaskEvent("started", task);
+    }
+    task.controller = new AbortController();
 
     try {
-      const result = task.task();
+      task.executing = true;
+      let result: any;
+      try {
+        result = this.invokeTask(task, {
+          id: task.id,
+          taskDesc: task.taskDesc,
+          signal: task.controller.signal,
+          attempt: task.attempt,
+        });
+      } finally {
+        task.executing = false;
+      }
+      // 执行过程中被取消（onCancel 已在 cancelTask 中触发）
+      if (this.checkAndClearCanceled(task.id)) {
+        if (result instanceof Promise) {
+          result.catch(() => {});
+        }
+        return;
+      }
+      // 生成器任务在之后的帧中推进，之后与异步任务相同；取消、超时和 clear 通过 abort 信号停止推进
+      if (isTaskGenerator(result)) {
+        result = this._slicer.run(result, task.controller.signal);
+      }
       if (result instanceof Promise) {
         isAsync = true;
-        this.handleAsyncTask(task, result, currentSession);
+        this.startTimeout(task, currentSession, generation);
+        this.handleAsyncTask(task, result, currentSession, generation);
         return;
       }
       // 同步任务也检查实例ID（防止 task() 执行过程中触发了 clear）
       if (this._sessionId === currentSession) {
-        task.resolve?.(result);
+        succeeded = true;
+        try {
+          task.resolve?.(result);
+        } finally {
+          this.settleTask(task, "resolved", result);
+        }
       }
     } catch (error) {
-      if (this._sessionId === currentSession) {
-        if (task.catch) {
-          task.catch(error);
-        } else {
-          console.error(
-            `[TaskMgr] 未捕获的同步任务异常 [${task.taskDesc}]:`,
-            error
-          );
+      if (
+        this._sessionId === currentSession &&
+        !this.checkAndClearCanceled(task.id)
+      ) {
+        // resolve 回调抛出的异常：任务已成功结束，不重试，直接交给 catch
+        if (!succeeded && this.retryTask(task, error)) {
+          retrying = true;
+          return;
+        }
+        const finalError = succeeded
+          ? this.wrapError(task, error)
+          : this.getFinalError(task, error);
+        try {
+          if (task.catch) {
+            task.catch(finalError);
+          } else if (!task.ownHandle) {
+            this.reportUnhandled(task, finalError, "未捕获的同步任务异常");
+          }
+        } finally {
+          this.settleTask(task, "failed", finalError);
         }
       }
     } finally {
-      if (!isAsync && this._sessionId === currentSession) {
+      if (!isAsync && !retrying && this._sessionId === currentSession) {
         // 如果实例已变更，不再处理后续逻辑（如 _step）
-        this._runningTasks.delete(task.id);
+        this.releaseTask(task);
         this._step();
       }
     }
   }
 
+  /**
+   * 经过中间件调用任务
+   * @param task 任务
+   * @param ctx 任务执行上下文
+   * @returns 任务结果
+   */
+  private invokeTask(task: TaskInfo, ctx: ITaskContext): any {
+    const middlewares = this._middlewares;
+    if (middlewares.length === 0) {
+      return task.task(ctx);
+    }
+    const dispatch = (index: number): any => {
+      if (index === middlewares.length) {
+        return task.task(ctx);
+      }
+      let called = false;
+      return middlewares[index](ctx, () => {
+        if (called) {
+          throw new Error(`[TaskMgr] 中间件多次调用 next [${task.taskDesc}]`);
+        }
+        called = true;
+        return dispatch(index + 1);
+      });
+    };
+    return dispatch(0);
+  }
+
   /**
    * 处理异步任务
    * @param task 任务
    * @param promise 任务Promise
    * @param sessionId 任务启动时的实例ID
+   * @param generation 本次尝试的序号
    * @returns void
    */
   handleAsyncTask(
     task: TaskInfo,
     promise: Promise<any>,
-    sessionId: number
+    sessionId: number,
+    generation: number
   ): void {
-    const shouldWait = task.donotWaitAsync !== true;
-
     promise
       .then(
         (result) => {
-          // 如果实例ID不一致，说明经历了 clear，直接丢弃回调
-          if (this._sessionId !== sessionId) {
+          // 如果实例ID不一致，说明经历了 clear；或本次尝试已超时、被取消，直接丢弃回调
+          if (this._sessionId !== sessionId || task.generation !== generation) {
             return;
           }
 
-          this._runningTasks.delete(task.id);
+          this.releaseTask(task);
           if (!this.checkAndClearCanceled(task.id)) {
-            task.resolve?.(result);
+            try {
+              task.resolve?.(result);
+            } finally {
+              this.settleTask(task, "resolved", result);
+            }
           }
-          if (shouldWait) this._step();
+          this._step();
         },
         (reason) => {
-          // 如果实例ID不一致，说明经历了 clear，直接丢弃回调
-          if (this._sessionId !== sessionId) {
+          // 如果实例ID不一致，说明经历了 clear；或本次尝试已超时、被取消，直接丢弃回调
+          if (this._sessionId !== sessionId || task.generation !== generation) {
             return;
           }
 
-          this._runningTasks.delete(task.id);
-          if (!this.checkAndClearCanceled(task.id)) {
-            if (task.reject) {
-              task.reject(reason);
-            } else if (task.catch) {
-              task.catch(reason);
-            } else {
-              console.error(
-                `[TaskMgr] 未捕获的 Promise 错误 [${task.taskDesc}]:`,
-                reason
-              );
-            }
-          }
-          if (shouldWait) this._step();
+          this.failTask(task, reason, "未捕获的 Promise 错误");
         }
       )
       .catch((reason) => {
@@ -188,17 +2969,15 @@ export class TaskMgr {
           return;
         }
 
-        this._runningTasks.delete(task.id);
+        this.releaseTask(task);
+        const error = this.wrapError(task, reason);
         if (task.catch) {
-          task.catch(reason);
+          task.catch(error);
         } else {
-          console.error(`[TaskMgr] 未捕获的异常 [${task.taskDesc}]:`, reason);
+          this.reportUnhandled(task, error, "未捕获的异常");
         }
-        if (shouldWait) this._step();
+        this._step();
       });
-
-    // 无需等待的任务立即执行下一个
-    if (!shouldWait) this._step();
   }
 
   /**
@@ -207,25 +2986,70 @@ export class TaskMgr {
    * @returns 是否存在且未被取消
    */
   public isTaskAlive(taskId: number): boolean {
-    // 如果在取消列表中，直接返回 false
-    if (this._taskCancelSet.has(taskId)) {
-      return false;
-    }
-
-    // 检查是否在正在运行的任务集合中
-    if (this._runningTasks.has(taskId)) {
-      return true;
-    }
-
-    // 检查是否在等待队列中
-    return this._tasks.some((t) => t.id === taskId);
+    return this._taskIndex.has(taskId);
   }
 
   public clear(): void {
     this._sessionId++; // 自增实例ID，使旧任务的回调失效
-    this._tasks.length = 0;
+    const runningTasks = [
+      ...this._runningTasks.values(),
+      ...this._retryingTasks.values(),
+    ];
+    const scheduledTasks = [...this._scheduledTasks.values()];
+    const discarded = [...this._taskIndex.values()];
+    this._taskIndex.clear();
+    this._lanes.clear();
+    this._parked.clear();
+    this._dirtyParks.clear();
+    this._resourceWaiters.clear();
+    this._blockedTasks.clear();
+    this._dependents.clear();
+    this._failedTasks.clear();
+    this._failedIds.clear();
+    this._sessionStartId = this._nextId;
     this._taskCancelSet.clear();
-    this._running = false;
+    this._usedSlots = 0;
+    this._resourceLocks.clear();
     this._runningTasks.clear();
+    this._retryingTasks.clear();
+    this._scheduledTasks.clear();
+    this._pendingByKey.clear();
+    this._runningByKey.clear();
+    this._clock.clearTimeout(this._rateTimer);
+    this._rateTimer = undefined;
+    this._clock.clearTimeout(this._yieldTimer);
+    this._yieldTimer = undefined;
+    for (const task of runningTasks) {
+      this._clock.clearTimeout(task.timeoutTimer);
+      this._clock.clearTimeout(task.retryTimer);
+      task.controller?.abort();
+    }
+    for (const task of scheduledTasks) {
+      this._clock.clearTimeout(task.scheduleTimer);
+    }
+    for (const task of discarded) {
+      const error = new TaskCancelledError(task.taskDesc, true);
+      task.handle?.settle("cancelled", error);
+      for (const group of task.groups ?? []) {
+        group.settle(task.id, "cancelled", error);
+      }
+      this.emitTaskEvent("discarded", task);
+    }
+
+    const slot = this._parentSlot;
+    this._parentSlot = undefined;
+    if (slot?.release) {
+      slot.release();
+    } else if (
+      slot?.id !== undefined &&
+      slot.parentSession === this._parent?._sessionId
+    ) {
+      // 父队列正在 clear 时实例ID已变更，槽位任务随父队列一起丢弃
+      this._parent.cancelTask(slot.id);
+    }
+    for (const child of this._children) {
+      child.clear();
+    }
+    this.checkIdle();
   }
 }
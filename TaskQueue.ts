@@ -0,0 +1,136 @@
+/**
+ * 队列节点，由 push/unshift 返回，用于 O(1) 删除
+ */
+export interface ITaskQueueNode<T> {
+  value: T;
+  prev?: ITaskQueueNode<T>;
+  next?: ITaskQueueNode<T>;
+}
+
+/**
+ * 双端队列（双向链表），队首队尾增删和按节点删除均为 O(1)
+ */
+export class TaskQueue<T> implements Iterable<T> {
+  private _head?: ITaskQueueNode<T>;
+  private _tail?: ITaskQueueNode<T>;
+  private _size: number = 0;
+
+  /** 元素个数 */
+  get size(): number {
+    return this._size;
+  }
+
+  /** 队首节点 */
+  get firstNode(): ITaskQueueNode<T> | undefined {
+    return this._head;
+  }
+
+  /** 队尾节点 */
+  get lastNode(): ITaskQueueNode<T> | undefined {
+    return this._tail;
+  }
+
+  /**
+   * 查看队首元素
+   * @returns 队首元素，队列为空时返回 undefined
+   */
+  public peek(): T | undefined {
+    return this._head?.value;
+  }
+
+  /**
+   * 加入队尾
+   * @param value 元素
+   * @returns 节点
+   */
+  public push(value: T): ITaskQueueNode<T> {
+    const node: ITaskQueueNode<T> = { value, prev: this._tail };
+    if (this._tail) {
+      this._tail.next = node;
+    } else {
+      this._head = node;
+    }
+    this._tail = node;
+    this._size++;
+    return node;
+  }
+
+  /**
+   * 加入队首
+   * @param value 元素
+   * @returns 节点
+   */
+  public unshift(value: T): ITaskQueueNode<T> {
+    const node: ITaskQueueNode<T> = { value, next: this._head };
+    if (this._head) {
+      this._head.prev = node;
+    } else {
+      this._tail = node;
+    }
+    this._head = node;
+    this._size++;
+    return node;
+  }
+
+  /**
+   * 插入到指定节点之前
+   * @param value 元素
+   * @param next 本队列中的节点，为空时加入队尾
+   * @returns 节点
+   */
+  public insertBefore(value: T, next?: ITaskQueueNode<T>): ITaskQueueNode<T> {
+    if (!next) {
+      return this.push(value);
+    }
+    if (!next.prev) {
+      return this.unshift(value);
+    }
+    const node: ITaskQueueNode<T> = { value, prev: next.prev, next };
+    next.prev.next = node;
+    next.prev = node;
+    this._size++;
+    return node;
+  }
+
+  /**
+   * 取出队首元素
+   * @returns 队首元素，队列为空时返回 undefined
+   */
+  public shift(): T | undefined {
+    const head = this._head;
+    if (!head) {
+      return undefined;
+    }
+    this.remove(head);
+    return head.value;
+  }
+
+  /**
+   * 删除节点，节点必须属于本队列且尚未删除
+   * @param node 由 push/unshift 返回的节点
+   */
+  public remove(node: ITaskQueueNode<T>): void {
+    if (node.prev) {
+      node.prev.next = node.next;
+    } else {
+      this._head = node.next;
+    }
+    if (node.next) {
+      node.next.prev = node.prev;
+    } else {
+      this._tail = node.prev;
+    }
+    node.prev = undefined;
+    node.next = undefined;
+    this._size--;
+  }
+
+  /**
+   * 从队首到队尾遍历
+   */
+  public *[Symbol.iterator](): Iterator<T> {
+    for (let node = this._head; node; node = node.next) {
+      yield node.value;
+    }
+  }
+}
@@ -0,0 +1,175 @@
+import { ITaskClock } from "./TaskClock";
+import { ITaskTicker } from "./TaskTicker";
+
+/**
+ * 生成器任务返回的生成器
+ */
+export type TaskGenerator =
+  | Generator<any, any, any>
+  | AsyncGenerator<any, any, any>;
+
+/**
+ * 判断任务返回值是否为生成器（包括异步生成器）
+ * @param value 任务返回值
+ * @returns 是否为生成器
+ */
+export function isTaskGenerator(value: any): value is TaskGenerator {
+  return (
+    value !== null &&
+    typeof value === "object" &&
+    typeof value.next === "function" &&
+    typeof value.return === "function" &&
+    (typeof value[Symbol.iterator] === "function" ||
+      typeof value[Symbol.asyncIterator] === "function")
+  );
+}
+
+interface ISlice {
+  generator: TaskGenerator;
+  resolve: (value: any) => void;
+  reject: (reason: any) => void;
+  /** 异步生成器正在等待上一步的结果 */
+  pending: boolean;
+}
+
+/**
+ * 生成器任务的时间切片：每帧在预算内轮流推进各生成器，生成器返回时任务完成
+ * 预算按 clock 计时，使用 VirtualClock 时同一帧内时间不前进，会一直推进到生成器结束或等待异步结果
+ */
+export class TaskSlicer {
+  /** 推进中的生成器，按上次推进的先后排列，每帧从最久未推进的开始 */
+  private _slices: Set<ISlice> = new Set();
+  /** 取消帧回调注册，没有生成器时为空 */
+  private _unsubscribe?: () => void;
+
+  /**
+   * @param ticker 帧回调来源
+   * @param clock 时钟
+   * @param budgetMs 每帧的时间预算（毫秒）
+   */
+  constructor(
+    private readonly ticker: ITaskTicker,
+    private readonly clock: ITaskClock,
+    private readonly budgetMs: number
+  ) {}
+
+  /** 推进中的生成器数 */
+  get size(): number {
+    return this._slices.size;
+  }
+
+  /**
+   * 在之后的帧中推进生成器
+   * @param generator 生成器
+   * @param signal 中止信号，中止后不再推进并调用生成器的 return
+   * @returns 生成器返回时 resolve 返回值，抛出异常时 reject；中止后不会结束
+   */
+  public run(generator: TaskGenerator, signal: AbortSignal): Promise<any> {
+    return new Promise((resolve, reject) => {
+      const slice: ISlice = { generator, resolve, reject, pending: false };
+      this._slices.add(slice);
+      signal.addEventListener("abort", () => this.stop(slice), { once: true });
+      if (!this._unsubscribe) {
+        this._unsubscribe = this.ticker.subscribe(() => this.tick());
+      }
+    });
+  }
+
+  /**
+   * 中止生成器
+   * @param slice 生成器
+   */
+  private stop(slice: ISlice): void {
+    if (!this.remove(slice)) {
+      return;
+    }
+    try {
+      // 执行生成器中的 finally
+      const result = slice.generator.return(undefined);
+      if (result instanceof Promise) {
+        result.catch(() => {});
+      }
+    } catch (error) {
+      // 生成器正在执行时（任务取消自身）无法 return，执行完这一步后不再推进
+    }
+  }
+
+  /**
+   * 移出推进列表，没有生成器时取消帧回调
+   * @param slice 生成器
+   * @returns 是否在推进列表中，已停止或已结束时返回 false
+   */
+  private remove(slice: ISlice): boolean {
+    if (!this._slices.delete(slice)) {
+      return false;
+    }
+    if (this._slices.size === 0) {
+      this._unsubscribe?.();
+      this._unsubscribe = undefined;
+    }
+    return true;
+  }
+
+  /**
+   * 每帧回调：轮流推进各生成器直到用完预算，每帧至少推进一次
+   */
+  private tick(): void {
+    const deadline = this.clock.now() + this.budgetMs;
+    for (;;) {
+      let resumed = false;
+      for (const slice of [...this._slices]) {
+        if (slice.pending || !this._slices.has(slice)) {
+          continue;
+        }
+        this.resume(slice);
+        resumed = true;
+        if (this.clock.now() >= deadline) {
+          return;
+        }
+      }
+      if (!resumed) {
+        return;
+      }
+    }
+  }
+
+  /**
+   * 推进一步
+   * @param slice 生成器
+   */
+  private resume(slice: ISlice): void {
+    // 移到末尾，下一帧优先推进其他生成器
+    this._slices.delete(slice);
+    this._slices.add(slice);
+    let step: IteratorResult<any> | Promise<IteratorResult<any>>;
+    try {
+      step = slice.generator.next();
+    } catch (error) {
+      if (this.remove(slice)) {
+        slice.reject(error);
+      }
+      return;
+    }
+    if (step instanceof Promise) {
+      slice.pending = true;
+      step.then(
+        (result) => {
+          slice.pending = false;
+          if (result.done && this.remove(slice)) {
+            slice.resolve(result.value);
+          }
+        },
+        (error) => {
+          slice.pending = false;
+          if (this.remove(slice)) {
+            slice.reject(error);
+          }
+        }
+      );
+      return;
+    }
+    if (step.done && this.remove(slice)) {
+      slice.resolve(step.value);
+    }
+  }
+}
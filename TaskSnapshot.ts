@@ -0,0 +1,85 @@
+import { ITaskRetryOptions, TaskDedupePolicy, TaskResource } from "./TaskMgr";
+
+/**
+ * 快照中的任务，只包含可序列化的字段
+ */
+export interface ISnapshotTask {
+  /** 注册的任务名 */
+  name: string;
+  /** 任务参数，需可 JSON 序列化 */
+  payload?: any;
+  /** 任务描述 */
+  taskDesc: string;
+  /** 解析后的优先级 */
+  priority: number;
+  weight?: number;
+  timeoutMs?: number;
+  /** 重试策略，shouldRetry 不会保存 */
+  retry?: Omit<ITaskRetryOptions, "shouldRetry">;
+  key?: string;
+  dedupe?: TaskDedupePolicy;
+  rateGroup?: string;
+  category?: string;
+  resources?: TaskResource[];
+  /** 进入等待队列的时间 */
+  runAt?: number;
+  repeatEvery?: number;
+  /** 剩余的执行次数 */
+  repeatTimes?: number;
+  /** 依赖的任务在 tasks 中的下标，依赖不在快照中的任务不会写入快照 */
+  dependsOn?: number[];
+  /** 快照时正在运行，恢复后重新执行 */
+  interrupted?: boolean;
+}
+
+/**
+ * 队列快照
+ */
+export interface ITaskSnapshot {
+  /** 快照格式版本 */
+  version: 1;
+  /** 快照时间 */
+  createdAt: number;
+  /** 任务，按原队列的执行顺序排列，依赖总在被依赖的任务之后 */
+  tasks: ISnapshotTask[];
+}
+
+/**
+ * 快照存储
+ */
+export interface ITaskSnapshotStorage {
+  /**
+   * 保存快照，覆盖之前的快照
+   * @param snapshot 快照
+   */
+  save(snapshot: ITaskSnapshot): Promise<void>;
+  /**
+   * 读取快照
+   * @returns 快照，没有时返回 undefined
+   */
+  load(): Promise<ITaskSnapshot | undefined>;
+  /**
+   * 删除快照
+   */
+  clear(): Promise<void>;
+}
+
+/**
+ * 内存快照存储，用于测试或同一进程内的重建
+ */
+export class MemorySnapshotStorage implements ITaskSnapshotStorage {
+  private _json?: string;
+
+  public async save(snapshot: ITaskSnapshot): Promise<void> {
+    // 保存序列化结果，与文件存储的行为保持一致
+    this._json = JSON.stringify(snapshot);
+  }
+
+  public async load(): Promise<ITaskSnapshot | undefined> {
+    return this._json === undefined ? undefined : JSON.parse(this._json);
+  }
+
+  public async clear(): Promise<void> {
+    this._json = undefined;
+  }
+}
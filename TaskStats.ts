@@ -0,0 +1,198 @@
+/** 每个分类保留的耗时样本数，超出后覆盖最早的样本 */
+const MAX_SAMPLES = 1024;
+
+/**
+ * 耗时分布（毫秒）
+ */
+export interface ITaskLatencyStats {
+  /** 样本数 */
+  count: number;
+  p50: number;
+  p95: number;
+  p99: number;
+  max: number;
+}
+
+/**
+ * 任务计数
+ */
+export interface ITaskCounts {
+  /** 已添加 */
+  enqueued: number;
+  /** 成功 */
+  succeeded: number;
+  /** 失败 */
+  failed: number;
+  /** 被取消 */
+  cancelled: number;
+  /** 因 clear 被丢弃 */
+  discarded: number;
+}
+
+/**
+ * 单个分类的统计
+ */
+export interface ITaskCategoryStats extends ITaskCounts {
+  /** 排队耗时，从进入等待队列到首次开始执行 */
+  wait: ITaskLatencyStats;
+  /** 执行耗时，从首次开始执行到结束，包含重试 */
+  run: ITaskLatencyStats;
+}
+
+/**
+ * 运行统计
+ */
+export interface ITaskStats extends ITaskCounts {
+  /** 等待队列中的任务数 */
+  queued: number;
+  /** 等待依赖的任务数 */
+  blocked: number;
+  /** 运行中的任务数 */
+  running: number;
+  /** 未到执行时间的延迟任务和重复任务数 */
+  scheduled: number;
+  /** 按分类的统计，未开启统计时为空 */
+  categories: Record<string, ITaskCategoryStats>;
+}
+
+/**
+ * 固定容量的耗时样本
+ */
+class LatencySamples {
+  private _samples: number[] = [];
+  private _next: number = 0;
+
+  public add(ms: number): void {
+    if (this._samples.length < MAX_SAMPLES) {
+      this._samples.push(ms);
+    } else {
+      this._samples[this._next] = ms;
+      this._next = (this._next + 1) % MAX_SAMPLES;
+    }
+  }
+
+  public summarize(): ITaskLatencyStats {
+    const sorted = [...this._samples].sort((a, b) => a - b);
+    // 最近秩法取分位数
+    const at = (p: number) =>
+      sorted.length > 0
+        ? sorted[Math.max(0, Math.ceil(sorted.length * p) - 1)]
+        : 0;
+    return {
+      count: sorted.length,
+      p50: at(0.5),
+      p95: at(0.95),
+      p99: at(0.99),
+      max: sorted.length > 0 ? sorted[sorted.length - 1] : 0,
+    };
+  }
+}
+
+type CategoryRecord = ITaskCounts & {
+  wait: LatencySamples;
+  run: LatencySamples;
+};
+
+/**
+ * 统计事件
+ */
+export type TaskStatsEvent =
+  | "enqueued"
+  | "started"
+  | "resolved"
+  | "rejected"
+  | "cancelled"
+  | "discarded";
+
+/**
+ * 运行统计收集器，只在开启统计时创建
+ */
+export class TaskStatsCollector {
+  private _categories: Map<string, CategoryRecord> = new Map();
+
+  /**
+   * 记录一次任务事件
+   * @param event 事件名
+   * @param category 分类
+   * @param ms 排队或执行耗时，started 时为排队耗时，结束时为执行耗时
+   */
+  public record(event: TaskStatsEvent, category: string, ms?: number): void {
+    let record = this._categories.get(category);
+    if (!record) {
+      record = {
+        enqueued: 0,
+        succeeded: 0,
+        failed: 0,
+        cancelled: 0,
+        discarded: 0,
+        wait: new LatencySamples(),
+        run: new LatencySamples(),
+      };
+      this._categories.set(category, record);
+    }
+    switch (event) {
+      case "enqueued":
+        record.enqueued++;
+        return;
+      case "started":
+        record.wait.add(ms!);
+        return;
+      case "resolved":
+        record.succeeded++;
+        break;
+      case "rejected":
+        record.failed++;
+        break;
+      case "cancelled":
+        record.cancelled++;
+        break;
+      case "discarded":
+        record.discarded++;
+        break;
+    }
+    if (ms !== undefined) {
+      record.run.add(ms);
+    }
+  }
+
+  /**
+   * 汇总各分类的统计
+   * @returns 总计数和按分类的统计
+   */
+  public summarize(): ITaskCounts & {
+    categories: Record<string, ITaskCategoryStats>;
+  } {
+    const result = {
+      enqueued: 0,
+      succeeded: 0,
+      failed: 0,
+      cancelled: 0,
+      discarded: 0,
+      categories: {} as Record<string, ITaskCategoryStats>,
+    };
+    for (const [category, record] of this._categories) {
+      result.enqueued += record.enqueued;
+      result.succeeded += record.succeeded;
+      result.failed += record.failed;
+      result.cancelled += record.cancelled;
+      result.discarded += record.discarded;
+      result.categories[category] = {
+        enqueued: record.enqueued,
+        succeeded: record.succeeded,
+        failed: record.failed,
+        cancelled: record.cancelled,
+        discarded: record.discarded,
+        wait: record.wait.summarize(),
+        run: record.run.summarize(),
+      };
+    }
+    return result;
+  }
+
+  /**
+   * 清空统计
+   */
+  public reset(): void {
+    this._categories.clear();
+  }
+}
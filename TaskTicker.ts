@@ -0,0 +1,40 @@
+import { ITaskClock, TaskTimer } from "./TaskClock";
+
+/**
+ * 帧回调来源，生成器任务在每帧回调中按时间预算推进
+ * 接入引擎时可直接包装其 update 循环
+ */
+export interface ITaskTicker {
+  /**
+   * 注册每帧回调
+   * @param callback 每帧调用
+   * @returns 取消注册的函数
+   */
+  subscribe(callback: () => void): () => void;
+}
+
+/**
+ * 基于时钟计时器的帧回调，使用 VirtualClock 时帧随虚拟时间推进
+ * @param clock 时钟
+ * @param intervalMs 帧间隔（毫秒）
+ * @returns 帧回调来源
+ */
+export function createClockTicker(
+  clock: ITaskClock,
+  intervalMs: number
+): ITaskTicker {
+  return {
+    subscribe(callback) {
+      let timer: TaskTimer | undefined;
+      const schedule = () => {
+        timer = clock.setTimeout(() => {
+          // 先安排下一帧，回调中取消注册时能一并取消
+          schedule();
+          callback();
+        }, intervalMs);
+      };
+      schedule();
+      return () => clock.clearTimeout(timer);
+    },
+  };
+}
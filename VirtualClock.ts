@@ -0,0 +1,131 @@
+import { ITaskClock, TaskTimer } from "./TaskClock";
+
+/** runAllPending 默认最多触发的计时器数，防止重复任务无限执行 */
+const DEFAULT_MAX_TIMERS = 10000;
+
+interface IVirtualTimer {
+  /** 到期时间 */
+  due: number;
+  /** 创建序号，同时到期时按创建顺序触发 */
+  seq: number;
+  callback: () => void;
+}
+
+/**
+ * 等待当前所有微任务执行完，使 Promise 回调在下一个计时器触发前完成
+ */
+function flushMicrotasks(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+/**
+ * 虚拟时钟，用于测试：时间只在调用 advance/runAllPending 时前进
+ */
+export class VirtualClock implements ITaskClock {
+  private _now: number;
+  private _nextId: number = 1;
+  private _timers: Map<number, IVirtualTimer> = new Map();
+
+  /**
+   * @param startTime 初始时间，默认0
+   */
+  constructor(startTime: number = 0) {
+    this._now = startTime;
+  }
+
+  /** 尚未触发的计时器数 */
+  get pendingCount(): number {
+    return this._timers.size;
+  }
+
+  public now(): number {
+    return this._now;
+  }
+
+  public setTimeout(callback: () => void, ms: number): TaskTimer {
+    const id = this._nextId++;
+    this._timers.set(id, {
+      due: this._now + Math.max(0, ms),
+      seq: id,
+      callback,
+    });
+    return id;
+  }
+
+  public clearTimeout(timer: TaskTimer | undefined): void {
+    if (typeof timer === "number") {
+      this._timers.delete(timer);
+    }
+  }
+
+  /**
+   * 时间前进 ms 毫秒，依次触发期间到期的计时器（包括期间新设置的）
+   * 每个计时器触发后等待微任务执行完，异步任务的回调因此能在下一个计时器前完成
+   * @param ms 前进的毫秒数
+   */
+  public async advance(ms: number): Promise<void> {
+    const target = this._now + Math.max(0, ms);
+    await flushMicrotasks();
+    for (;;) {
+      const next = this.peekTimer();
+      if (!next || next[1].due > target) {
+        break;
+      }
+      await this.fire(next[0], next[1]);
+    }
+    this._now = target;
+  }
+
+  /**
+   * 依次触发所有计时器直到没有待触发的计时器
+   * @param maxTimers 最多触发的计时器数，超出时抛错，默认10000
+   */
+  public async runAllPending(
+    maxTimers: number = DEFAULT_MAX_TIMERS
+  ): Promise<void> {
+    await flushMicrotasks();
+    for (let fired = 0; ; fired++) {
+      const next = this.peekTimer();
+      if (!next) {
+        return;
+      }
+      if (fired >= maxTimers) {
+        throw new Error(
+          `[VirtualClock] 触发了${maxTimers}个计时器后仍未结束，可能存在重复任务`
+        );
+      }
+      await this.fire(next[0], next[1]);
+    }
+  }
+
+  /**
+   * 获取最早到期的计时器
+   * @returns 计时器id和计时器，没有时返回 undefined
+   */
+  private peekTimer(): [number, IVirtualTimer] | undefined {
+    let best: [number, IVirtualTimer] | undefined;
+    for (const entry of this._timers) {
+      const timer = entry[1];
+      if (
+        !best ||
+        timer.due < best[1].due ||
+        (timer.due === best[1].due && timer.seq < best[1].seq)
+      ) {
+        best = entry;
+      }
+    }
+    return best;
+  }
+
+  /**
+   * 触发计时器
+   * @param id 计时器id
+   * @param timer 计时器
+   */
+  private async fire(id: number, timer: IVirtualTimer): Promise<void> {
+    this._timers.delete(id);
+    this._now = Math.max(this._now, timer.due);
+    timer.callback();
+    await flushMicrotasks();
+  }
+}
@@ -0,0 +1,190 @@
+import { performance } from "perf_hooks";
+import { TaskMgr } from "./TaskMgr";
+import { ITaskQueueNode, TaskQueue } from "./TaskQueue";
+
+/**
+ * 排队任务的队列基准测试
+ * 运行：npx tsx benchmark.ts [任务数]
+ *
+ * 用原实现的存储方式（数组队列 + 线性查找 + 延迟清理的取消集合）和
+ * 当前的双向链表队列 + id 索引各跑一遍入队、存活检查、取消和出队，
+ * 只对比存储结构本身；最后用 TaskMgr 跑一遍同样的流程作为端到端参考
+ */
+
+interface IBenchTask {
+  id: number;
+  node?: ITaskQueueNode<IBenchTask>;
+}
+
+interface IBenchQueue {
+  enqueue(task: IBenchTask): void;
+  isAlive(id: number): boolean;
+  cancel(id: number): void;
+  /** 取出下一个未取消的任务 */
+  dequeue(): IBenchTask | undefined;
+}
+
+/**
+ * 原实现的存储模型：数组 shift 出队，线性查找存活，取消的任务留在队列中直到被跳过
+ */
+class LegacyQueue implements IBenchQueue {
+  private _tasks: IBenchTask[] = [];
+  private _cancelSet: Set<number> = new Set();
+
+  public enqueue(task: IBenchTask): void {
+    this._tasks.push(task);
+  }
+
+  public isAlive(id: number): boolean {
+    return !this._cancelSet.has(id) && this._tasks.some((t) => t.id === id);
+  }
+
+  public cancel(id: number): void {
+    if (this._tasks.some((t) => t.id === id)) {
+      this._cancelSet.add(id);
+    }
+  }
+
+  public dequeue(): IBenchTask | undefined {
+    while (this._tasks.length > 0) {
+      const task = this._tasks.shift()!;
+      if (!this._cancelSet.delete(task.id)) {
+        return task;
+      }
+    }
+    return undefined;
+  }
+}
+
+/**
+ * 新实现：TaskQueue 出队和按节点删除，Map 索引查找
+ */
+class IndexedQueue implements IBenchQueue {
+  private _tasks: TaskQueue<IBenchTask> = new TaskQueue();
+  private _index: Map<number, IBenchTask> = new Map();
+
+  public enqueue(task: IBenchTask): void {
+    task.node = this._tasks.push(task);
+    this._index.set(task.id, task);
+  }
+
+  public isAlive(id: number): boolean {
+    return this._index.has(id);
+  }
+
+  public cancel(id: number): void {
+    const task = this._index.get(id);
+    if (task) {
+      this._tasks.remove(task.node!);
+      this._index.delete(id);
+    }
+  }
+
+  public dequeue(): IBenchTask | undefined {
+    const task = this._tasks.shift();
+    if (task) {
+      this._index.delete(task.id);
+    }
+    return task;
+  }
+}
+
+/**
+ * 计时
+ * @param fn 被测函数
+ * @returns 耗时（毫秒）
+ */
+function measure(fn: () => void): number {
+  const start = performance.now();
+  fn();
+  return performance.now() - start;
+}
+
+/**
+ * 依次测量入队、存活检查、取消一半、出队全部的耗时
+ * @param queue 队列
+ * @param count 任务数
+ * @returns 各阶段耗时
+ */
+function runQueueBench(queue: IBenchQueue, count: number) {
+  let dequeued = 0;
+  const result = {
+    enqueue: measure(() => {
+      for (let id = 1; id <= count; id++) {
+        queue.enqueue({ id });
+      }
+    }),
+    isAlive: measure(() => {
+      for (let id = 1; id <= count; id++) {
+        queue.isAlive(id);
+      }
+    }),
+    cancel: measure(() => {
+      for (let id = 1; id <= count; id += 2) {
+        queue.cancel(id);
+      }
+    }),
+    dequeue: measure(() => {
+      while (queue.dequeue()) {
+        dequeued++;
+      }
+    }),
+  };
+  if (dequeued !== Math.floor(count / 2)) {
+    throw new Error(`出队数量错误：${dequeued}`);
+  }
+  return result;
+}
+
+/**
+ * TaskMgr 端到端：暂停后添加任务，检查存活，取消一半，恢复并等待全部完成
+ * @param count 任务数
+ * @returns 各阶段耗时
+ */
+async function runTaskMgrBench(count: number) {
+  const mgr = TaskMgr.create();
+  const ids: number[] = [];
+  mgr.pause();
+  const result = {
+    enqueue: measure(() => {
+      for (let i = 0; i < count; i++) {
+        ids.push(mgr.addTask({ taskDesc: `任务${i}`, task: async () => {} }));
+      }
+    }),
+    isAlive: measure(() => {
+      for (const id of ids) {
+        mgr.isTaskAlive(id);
+      }
+    }),
+    cancel: measure(() => {
+      for (let i = 0; i < ids.length; i += 2) {
+        mgr.cancelTask(ids[i]);
+      }
+    }),
+    dequeue: 0,
+  };
+  const start = performance.now();
+  mgr.resume();
+  await mgr.whenIdle();
+  result.dequeue = performance.now() - start;
+  return result;
+}
+
+function format(result: Record<string, number>): string {
+  return Object.entries(result)
+    .map(([name, ms]) => `${name} ${ms.toFixed(1)}ms`)
+    .join("  ");
+}
+
+async function main(): Promise<void> {
+  const count = Number(process.argv[2]) || 20000;
+  console.log(`任务数：${count}`);
+  console.log(`原实现    ${format(runQueueBench(new LegacyQueue(), count))}`);
+  console.log(`新实现    ${format(runQueueBench(new IndexedQueue(), count))}`);
+  console.log(`TaskMgr   ${format(await runTaskMgrBench(count))}`);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -1,4 +1,16 @@
-import { TaskMgr } from "./TaskMgr";
+import * as os from "os";
+import * as path from "path";
+import { FileSnapshotStorage } from "./FileSnapshotStorage";
+import {
+  TaskCancelledError,
+  TaskDependencyError,
+  TaskError,
+  TaskMgr,
+  TaskRetryError,
+  TaskTimeoutError,
+} from "./TaskMgr";
+import { MemorySnapshotStorage } from "./TaskSnapshot";
+import { VirtualClock } from "./VirtualClock";
 
 /**
  * TaskMgr 单元测试
@@ -731,6 +743,2618 @@ export class TaskMgrTest {
     this.assert(results.length === 0, "clear 后旧任务的回调不应执行");
   }
 
+  /**
+   * 测试18：maxConcurrency 限制并发数
+   */
+  static async test18_maxConcurrency(): Promise<void> {
+    console.log("\n=== 测试18：maxConcurrency 限制并发数 ===");
+    const mgr = TaskMgr.create({ maxConcurrency: 2 });
+    const started: string[] = [];
+    let inFlight = 0;
+    let maxInFlight = 0;
+
+    for (let i = 1; i <= 4; i++) {
+      mgr.addTask({
+        taskDesc: `并发任务${i}`,
+        task: () => {
+          started.push(`task${i}`);
+          inFlight++;
+          maxInFlight = Math.max(maxInFlight, inFlight);
+          return new Promise((resolve) => {
+            setTimeout(() => {
+              inFlight--;
+              resolve(i);
+            }, 50);
+          });
+        },
+      });
+    }
+
+    this.assert(started.length === 2, "同时只应启动2个任务");
+    this.assert(
+      started[0] === "task1" && started[1] === "task2",
+      "任务应按顺序启动"
+    );
+
+    await this.wait(80);
+    this.assert(started.length === 4, "槽位释放后应启动后续任务");
+    this.assert(started[2] === "task3", "后续任务按 FIFO 顺序启动");
+
+    await this.wait(80);
+    this.assert(maxInFlight === 2, "同时运行的任务数不应超过2");
+  }
+
+  /**
+   * 测试19：任务槽位权重
+   */
+  static async test19_slotWeight(): Promise<void> {
+    console.log("\n=== 测试19：任务槽位权重 ===");
+    const mgr = TaskMgr.create({ maxConcurrency: 3 });
+    const started: string[] = [];
+    const asyncTask = (name: string) => () => {
+      started.push(name);
+      return new Promise((resolve) => setTimeout(resolve, 50));
+    };
+
+    mgr.addTask({ taskDesc: "普通任务", task: asyncTask("light") });
+    mgr.addTask({ taskDesc: "重任务", task: asyncTask("heavy"), weight: 3 });
+    mgr.addTask({ taskDesc: "普通任务2", task: asyncTask("light2") });
+
+    this.assert(started.length === 1, "重任务槽位不足时应等待");
+
+    await this.wait(70);
+    this.assert(started.length === 2, "重任务应独占全部槽位");
+    this.assert(started[1] === "heavy", "即使后续任务可用也不应插队");
+
+    await this.wait(70);
+    this.assert(started[2] === "light2", "重任务完成后继续执行");
+  }
+
+  /**
+   * 测试20：优先级队列
+   */
+  static async test20_priority(): Promise<void> {
+    console.log("\n=== 测试20：优先级队列 ===");
+    const mgr = TaskMgr.create({ priorities: { urgent: 100 } });
+    const results: string[] = [];
+
+    mgr.addTask({
+      taskDesc: "阻塞任务",
+      task: () => new Promise((resolve) => setTimeout(resolve, 50)),
+    });
+
+    const push = (name: string) => () => {
+      results.push(name);
+    };
+    mgr.addTask({ taskDesc: "后台1", task: push("bg1"), priority: "low" });
+    mgr.addTask({ taskDesc: "普通1", task: push("normal1") });
+    mgr.addTask({ taskDesc: "后台2", task: push("bg2"), priority: "low" });
+    mgr.addTask({ taskDesc: "用户操作", task: push("user"), priority: 5 });
+    mgr.addTask({ taskDesc: "普通2", task: push("normal2") });
+    mgr.addTask({ taskDesc: "紧急", task: push("urgent"), priority: "urgent" });
+
+    await this.wait(100);
+
+    this.assert(
+      results.join(",") === "urgent,user,normal1,normal2,bg1,bg2",
+      "应按优先级执行，同优先级保持 FIFO"
+    );
+
+    let thrown = false;
+    try {
+      mgr.addTask({
+        taskDesc: "未知优先级",
+        task: push("x"),
+        priority: "nope",
+      });
+    } catch (e) {
+      thrown = true;
+    }
+    this.assert(thrown, "未知的命名优先级应抛错");
+  }
+
+  /**
+   * 测试21：优先级老化
+   */
+  static async test21_priorityAging(): Promise<void> {
+    console.log("\n=== 测试21：优先级老化 ===");
+    const mgr = TaskMgr.create({ agingMs: 20 });
+    const results: string[] = [];
+
+    mgr.addTask({
+      taskDesc: "阻塞任务",
+      task: () => new Promise((resolve) => setTimeout(resolve, 60)),
+    });
+    mgr.addTask({
+      taskDesc: "低优先级",
+      task: () => {
+        results.push("low");
+      },
+      priority: "low",
+    });
+
+    await this.wait(40);
+
+    mgr.addTask({
+      taskDesc: "高优先级",
+      task: () => {
+        results.push("high");
+      },
+      priority: "high",
+    });
+
+    await this.wait(80);
+
+    this.assert(results[0] === "low", "等待足够久的低优先级任务应先执行");
+    this.assert(results[1] === "high", "高优先级任务随后执行");
+  }
+
+  /**
+   * 测试22：任务依赖
+   */
+  static async test22_dependsOn(): Promise<void> {
+    console.log("\n=== 测试22：任务依赖 ===");
+    const mgr = TaskMgr.create();
+    const results: string[] = [];
+
+    const downloadId = mgr.addTask({
+      taskDesc: "下载",
+      task: () =>
+        new Promise((resolve) => {
+          setTimeout(() => {
+            results.push("download");
+            resolve("data");
+          }, 50);
+        }),
+      donotWaitAsync: true,
+    });
+
+    const parseId = mgr.addTask({
+      taskDesc: "解析",
+      task: () => {
+        results.push("parse");
+      },
+      dependsOn: [downloadId],
+    });
+
+    mgr.addTask({
+      taskDesc: "无关任务",
+      task: () => {
+        results.push("other");
+      },
+    });
+
+    this.assert(results[0] === "other", "无关任务不应等待依赖");
+    this.assert(mgr.isTaskAlive(parseId), "等待依赖的任务应存在");
+
+    await this.wait(80);
+
+    this.assert(
+      results.join(",") === "other,download,parse",
+      "依赖完成后才执行下游任务"
+    );
+
+    mgr.addTask({
+      taskDesc: "依赖已完成",
+      task: () => {
+        results.push("late");
+      },
+      dependsOn: [downloadId, parseId],
+    });
+    this.assert(results[3] === "late", "依赖已完成的任务应立即执行");
+
+    let message = "";
+    try {
+      mgr.addTask({
+        taskDesc: "依赖不存在",
+        task: () => {},
+        dependsOn: [12345],
+      });
+    } catch (e) {
+      message = (e as Error).message;
+    }
+    this.assert(
+      message.includes("依赖不存在") && message.includes("12345"),
+      "未知依赖应抛错并包含任务描述"
+    );
+  }
+
+  /**
+   * 测试23：依赖失败或取消时下游任务随之结束
+   */
+  static async test23_dependencyFailure(): Promise<void> {
+    console.log("\n=== 测试23：依赖失败或取消时下游任务随之结束 ===");
+    const mgr = TaskMgr.create();
+    const results: string[] = [];
+
+    const failId = mgr.addTask({
+      taskDesc: "会失败的任务",
+      task: () => Promise.reject("网络错误"),
+      catch: () => {
+        results.push("fail");
+      },
+    });
+    const childId = mgr.addTask({
+      taskDesc: "下游任务",
+      task: () => {
+        results.push("child");
+      },
+      dependsOn: [failId],
+      reject: (error: TaskDependencyError) => {
+        results.push(`child:${error.dependencyDesc}:${error.cause}`);
+      },
+    });
+    mgr.addTask({
+      taskDesc: "孙任务",
+      task: () => {
+        results.push("grandchild");
+      },
+      dependsOn: [childId],
+      reject: (error) => {
+        results.push(
+          error instanceof TaskDependencyError ? "grandchild:failed" : ""
+        );
+      },
+    });
+
+    const blockerId = mgr.addTask({
+      taskDesc: "会被取消的任务",
+      task: () => new Promise((resolve) => setTimeout(resolve, 50)),
+    });
+    const cancelledChildId = mgr.addTask({
+      taskDesc: "依赖被取消的任务",
+      task: () => {
+        results.push("cancelledChild");
+      },
+      dependsOn: [blockerId],
+    });
+    mgr.cancelTask(blockerId);
+
+    this.assert(
+      !mgr.isTaskAlive(cancelledChildId),
+      "依赖取消后下游任务应立即取消"
+    );
+
+    await this.wait(100);
+
+    this.assert(
+      results.join(",") ===
+        "fail,child:会失败的任务:网络错误,grandchild:failed",
+      "依赖失败应逐级传递给下游任务"
+    );
+  }
+
+  /**
+   * 测试24：任务超时
+   */
+  static async test24_timeout(): Promise<void> {
+    console.log("\n=== 测试24：任务超时 ===");
+    const mgr = TaskMgr.create();
+    const results: string[] = [];
+    let timeoutError: TaskTimeoutError | undefined;
+
+    mgr.addTask({
+      taskDesc: "超时任务",
+      task: () =>
+        new Promise((resolve) => {
+          setTimeout(() => resolve("late"), 80);
+        }),
+      timeoutMs: 30,
+      resolve: (result) => {
+        results.push("resolve:" + result);
+      },
+      reject: (reason) => {
+        timeoutError = reason;
+        results.push("timeout");
+      },
+    });
+
+    mgr.addTask({
+      taskDesc: "后续任务",
+      task: () => {
+        results.push("task2");
+      },
+    });
+
+    await this.wait(50);
+    this.assert(
+      results.join(",") === "timeout,task2",
+      "超时后应走 reject 并继续执行后续任务"
+    );
+    this.assert(
+      timeoutError instanceof TaskTimeoutError &&
+        timeoutError.taskDesc === "超时任务" &&
+        timeoutError.elapsedMs >= 20,
+      "超时错误应携带任务描述和耗时"
+    );
+
+    await this.wait(60);
+    this.assert(results.length === 2, "超时任务迟到的结果应被忽略");
+  }
+
+  /**
+   * 测试25：默认超时时间
+   */
+  static async test25_defaultTimeout(): Promise<void> {
+    console.log("\n=== 测试25：默认超时时间 ===");
+    const mgr = TaskMgr.create({ defaultTimeoutMs: 30 });
+    const results: string[] = [];
+
+    mgr.addTask({
+      taskDesc: "永不结束的任务",
+      task: () => new Promise(() => {}),
+      catch: (reason) => {
+        results.push(reason instanceof TaskTimeoutError ? "timeout" : "other");
+      },
+    });
+
+    mgr.addTask({
+      taskDesc: "不限时任务",
+      task: () =>
+        new Promise((resolve) => {
+          setTimeout(() => resolve("slow"), 50);
+        }),
+      timeoutMs: 0,
+      resolve: (result) => {
+        results.push(result);
+      },
+    });
+
+    await this.wait(120);
+    this.assert(
+      results.join(",") === "timeout,slow",
+      "默认超时应生效，timeoutMs 为0时不限制"
+    );
+  }
+
+  /**
+   * 测试26：取消时通过 AbortSignal 通知运行中的任务
+   */
+  static async test26_abortSignal(): Promise<void> {
+    console.log("\n=== 测试26：取消时通过 AbortSignal 通知运行中的任务 ===");
+    const mgr = TaskMgr.create();
+    const results: string[] = [];
+
+    const runningId = mgr.addTask({
+      taskDesc: "可中断任务",
+      task: ({ signal }) =>
+        new Promise((resolve, reject) => {
+          const timer = setTimeout(() => {
+            results.push("finished");
+            resolve("done");
+          }, 50);
+          signal.addEventListener("abort", () => {
+            clearTimeout(timer);
+            results.push("aborted");
+            reject("aborted");
+          });
+        }),
+      resolve: () => {
+        results.push("resolve");
+      },
+      reject: () => {
+        results.push("reject");
+      },
+      onCancel: () => {
+        results.push("onCancel1");
+      },
+    });
+
+    const pendingId = mgr.addTask({
+      taskDesc: "排队中被取消",
+      task: () => {
+        results.push("task2");
+      },
+      onCancel: () => {
+        results.push("onCancel2");
+      },
+    });
+
+    mgr.addTask({
+      taskDesc: "后续任务",
+      task: () => {
+        results.push("task3");
+      },
+    });
+
+    mgr.cancelTask(pendingId);
+    mgr.cancelTask(runningId);
+
+    this.assert(
+      results.join(",") === "onCancel2,aborted,onCancel1,task3",
+      "取消应中断运行中的任务、触发 onCancel 并继续执行后续任务"
+    );
+
+    await this.wait(80);
+    this.assert(results.length === 4, "被取消任务的结果应被忽略");
+  }
+
+  /**
+   * 测试27：clear 中断运行中的任务
+   */
+  static async test27_clearAbortsRunning(): Promise<void> {
+    console.log("\n=== 测试27：clear 中断运行中的任务 ===");
+    const mgr = TaskMgr.create();
+    let aborted = false;
+    let cancelCalled = false;
+
+    mgr.addTask({
+      taskDesc: "运行中任务",
+      task: ({ signal }) =>
+        new Promise((resolve) => {
+          signal.addEventListener("abort", () => {
+            aborted = true;
+          });
+          setTimeout(resolve, 30);
+        }),
+      onCancel: () => {
+        cancelCalled = true;
+      },
+    });
+
+    mgr.clear();
+
+    await this.wait(50);
+    this.assert(aborted, "clear 应触发运行中任务的 abort 信号");
+    this.assert(!cancelCalled, "clear 不应触发旧任务的回调");
+  }
+
+  /**
+   * 测试28：失败重试
+   */
+  static async test28_retry(): Promise<void> {
+    console.log("\n=== 测试28：失败重试 ===");
+    const mgr = TaskMgr.create();
+    const results: string[] = [];
+
+    mgr.addTask({
+      taskDesc: "不稳定的请求",
+      task: ({ attempt }) => {
+        results.push(`attempt${attempt}`);
+        return attempt < 3
+          ? Promise.reject(`error${attempt}`)
+          : Promise.resolve("ok");
+      },
+      retry: { maxAttempts: 3, backoff: "exponential", delayMs: 10 },
+      resolve: (result) => {
+        results.push(result);
+      },
+      reject: () => {
+        results.push("reject");
+      },
+    });
+
+    mgr.addTask({
+      taskDesc: "后续任务",
+      task: () => {
+        results.push("task2");
+      },
+    });
+
+    await this.wait(80);
+    this.assert(
+      results.join(",") === "attempt1,attempt2,attempt3,ok,task2",
+      "失败后应重试，重试期间默认阻塞队列"
+    );
+  }
+
+  /**
+   * 测试29：重试用尽与不阻塞队列的重试
+   */
+  static async test29_retryExhausted(): Promise<void> {
+    console.log("\n=== 测试29：重试用尽与不阻塞队列的重试 ===");
+    const mgr = TaskMgr.create();
+    const results: string[] = [];
+    let retryError: TaskRetryError | undefined;
+
+    mgr.addTask({
+      taskDesc: "总是失败",
+      task: ({ attempt }) => {
+        results.push(`attempt${attempt}`);
+        throw new Error(`error${attempt}`);
+      },
+      retry: {
+        maxAttempts: 5,
+        delayMs: 20,
+        blockQueue: false,
+        shouldRetry: (error: Error) => error.message !== "error2",
+      },
+      catch: (error) => {
+        retryError = error;
+        results.push("catch");
+      },
+    });
+
+    mgr.addTask({
+      taskDesc: "后续任务",
+      task: () => {
+        results.push("task2");
+      },
+    });
+
+    await this.wait(60);
+    this.assert(
+      results.join(",") === "attempt1,task2,attempt2,catch",
+      "不阻塞队列时后续任务应在退避期间执行，shouldRetry 返回 false 时停止重试"
+    );
+    this.assert(
+      retryError instanceof TaskRetryError &&
+        retryError.attempts === 2 &&
+        retryError.errors[0].message === "error1" &&
+        retryError.cause.message === "error2",
+      "最终错误应保留每次尝试的错误"
+    );
+  }
+
+  /**
+   * 测试30：runTask 返回可 await 的任务句柄
+   */
+  static async test30_runTask(): Promise<void> {
+    console.log("\n=== 测试30：runTask 返回可 await 的任务句柄 ===");
+    const mgr = TaskMgr.create();
+    const results: string[] = [];
+
+    const handle = mgr.runTask({
+      taskDesc: "异步任务",
+      task: () =>
+        new Promise<string>((resolve) => {
+          setTimeout(() => resolve("result"), 20);
+        }),
+      resolve: (result) => {
+        results.push("resolve:" + result);
+      },
+    });
+    const queued = mgr.runTask({ taskDesc: "同步任务", task: () => 42 });
+
+    this.assert(handle.status === "running", "首个任务应处于运行状态");
+    this.assert(queued.status === "pending", "排队中的任务应处于等待状态");
+    this.assert(mgr.isTaskAlive(handle.id), "句柄的 id 应与任务对应");
+
+    const value: string = await handle;
+    this.assert(value === "result", "await 句柄应得到任务结果");
+    this.assert(results[0] === "resolve:result", "resolve 回调应同时触发");
+    this.assert(handle.status === "resolved", "完成后状态应为 resolved");
+    this.assert((await queued) === 42, "同步任务的结果也应通过句柄返回");
+  }
+
+  /**
+   * 测试31：任务句柄在失败、取消和 clear 时 reject
+   */
+  static async test31_runTaskRejections(): Promise<void> {
+    console.log("\n=== 测试31：任务句柄在失败、取消和 clear 时 reject ===");
+    const mgr = TaskMgr.create();
+    const errors: any[] = [];
+
+    const failed = mgr.runTask({
+      taskDesc: "失败任务",
+      task: () => Promise.reject("boom"),
+    });
+    await failed.then(undefined, (reason) => errors.push(reason));
+
+    mgr.addTask({
+      taskDesc: "阻塞任务",
+      task: () => new Promise((resolve) => setTimeout(resolve, 20)),
+    });
+    const cancelled = mgr.runTask({ taskDesc: "取消任务", task: () => 1 });
+    const cleared = mgr.runTask({ taskDesc: "清空任务", task: () => 2 });
+    cancelled.cancel();
+    mgr.clear();
+
+    await cancelled.catch((reason) => errors.push(reason));
+    await cleared.catch((reason) => errors.push(reason));
+
+    this.assert(errors[0] === "boom", "失败时句柄应 reject 原因");
+    this.assert(
+      errors[1] instanceof TaskCancelledError && !errors[1].cleared,
+      "取消时句柄应 reject TaskCancelledError"
+    );
+    this.assert(
+      errors[2] instanceof TaskCancelledError && errors[2].cleared,
+      "clear 时句柄应 reject 并标记为 clear"
+    );
+    this.assert(
+      failed.status === "rejected" &&
+        cancelled.status === "cancelled" &&
+        cleared.status === "cancelled",
+      "句柄状态应反映任务结果"
+    );
+  }
+
+  /**
+   * 测试32：暂停与恢复
+   */
+  static async test32_pauseResume(): Promise<void> {
+    console.log("\n=== 测试32：暂停与恢复 ===");
+    const mgr = TaskMgr.create();
+    const results: string[] = [];
+
+    mgr.addTask({
+      taskDesc: "运行中任务",
+      task: () =>
+        new Promise((resolve) => {
+          setTimeout(() => resolve("done"), 20);
+        }),
+      resolve: (result) => {
+        results.push(result);
+      },
+    });
+    mgr.pause();
+    mgr.addTask({
+      taskDesc: "暂停期间添加",
+      task: () => {
+        results.push("task2");
+      },
+    });
+
+    this.assert(mgr.isPaused, "pause 后 isPaused 应为 true");
+
+    await this.wait(50);
+    this.assert(
+      results.join(",") === "done",
+      "暂停时运行中的任务正常完成，但不启动新任务"
+    );
+
+    mgr.resume();
+    this.assert(!mgr.isPaused, "resume 后 isPaused 应为 false");
+    this.assert(results[1] === "task2", "恢复后应继续执行排队的任务");
+  }
+
+  /**
+   * 测试33：stepOnce 逐个执行
+   */
+  static async test33_stepOnce(): Promise<void> {
+    console.log("\n=== 测试33：stepOnce 逐个执行 ===");
+    const mgr = TaskMgr.create();
+    const results: string[] = [];
+
+    mgr.pause();
+    for (let i = 1; i <= 3; i++) {
+      mgr.addTask({
+        taskDesc: `任务${i}`,
+        task: () => {
+          results.push(`task${i}`);
+        },
+      });
+    }
+
+    this.assert(results.length === 0, "暂停时添加的任务只入队");
+    this.assert(mgr.stepOnce(), "stepOnce 应启动一个任务");
+    this.assert(results.join(",") === "task1", "每次只执行一个任务");
+    mgr.stepOnce();
+    mgr.stepOnce();
+    this.assert(results.length === 3, "逐个执行完所有任务");
+    this.assert(!mgr.stepOnce(), "队列为空时 stepOnce 返回 false");
+  }
+
+  /**
+   * 测试34：生命周期事件
+   */
+  static async test34_events(): Promise<void> {
+    console.log("\n=== 测试34：生命周期事件 ===");
+    const mgr = TaskMgr.create();
+    const events: string[] = [];
+    let runMs = -1;
+
+    mgr.on("enqueued", (e) => events.push(`enqueued:${e.taskDesc}`));
+    mgr.on("started", (e) => events.push(`started:${e.taskDesc}`));
+    mgr.on("resolved", (e, result) => {
+      events.push(`resolved:${e.taskDesc}:${result}`);
+      runMs = e.runMs ?? -1;
+    });
+    mgr.on("rejected", (e, reason) =>
+      events.push(`rejected:${e.taskDesc}:${reason}`)
+    );
+    mgr.on("cancelled", (e) => events.push(`cancelled:${e.taskDesc}`));
+    mgr.on("drain", () => events.push("drain"));
+    mgr.on("idle", () => events.push("idle"));
+
+    mgr.addTask({
+      taskDesc: "A",
+      task: () => new Promise((resolve) => setTimeout(() => resolve(1), 20)),
+    });
+    mgr.addTask({ taskDesc: "B", task: () => Promise.reject("x"), catch() {} });
+    const cancelId = mgr.addTask({ taskDesc: "C", task: () => {} });
+    mgr.cancelTask(cancelId);
+
+    await this.wait(50);
+    this.assert(
+      events.join(",") ===
+        [
+          "enqueued:A",
+          "drain",
+          "started:A",
+          "enqueued:B",
+          "enqueued:C",
+          "cancelled:C",
+          "resolved:A:1",
+          "drain",
+          "started:B",
+          "rejected:B:x",
+          "idle",
+        ].join(","),
+      "应按顺序派发任务事件和队列事件"
+    );
+    this.assert(runMs >= 15, "事件应携带执行耗时");
+
+    const discarded: string[] = [];
+    mgr.on("discarded", (e) => discarded.push(e.taskDesc));
+    mgr.addTask({ taskDesc: "D", task: () => new Promise(() => {}) });
+    mgr.addTask({ taskDesc: "E", task: () => {} });
+    mgr.clear();
+    this.assert(discarded.join(",") === "D,E", "clear 应派发 discarded 事件");
+  }
+
+  /**
+   * 测试35：whenIdle 等待队列空闲
+   */
+  static async test35_whenIdle(): Promise<void> {
+    console.log("\n=== 测试35：whenIdle 等待队列空闲 ===");
+    const mgr = TaskMgr.create({ maxConcurrency: 2 });
+    const results: number[] = [];
+
+    for (let i = 1; i <= 4; i++) {
+      mgr.addTask({
+        taskDesc: `任务${i}`,
+        task: () =>
+          new Promise((resolve) => {
+            setTimeout(() => {
+              results.push(i);
+              resolve(i);
+            }, 10 * i);
+          }),
+      });
+    }
+
+    await mgr.whenIdle();
+    this.assert(results.length === 4, "whenIdle 应在所有任务完成后 resolve");
+
+    let resolved = false;
+    mgr.whenIdle().then(() => (resolved = true));
+    await Promise.resolve();
+    this.assert(resolved, "空闲时 whenIdle 应立即 resolve");
+  }
+
+  /**
+   * 测试36：按 key 去重（dropNew / replacePending）
+   */
+  static async test36_dedupe(): Promise<void> {
+    console.log("\n=== 测试36：按 key 去重（dropNew / replacePending）===");
+    const mgr = TaskMgr.create();
+    const results: string[] = [];
+    const push = (name: string) => () => {
+      results.push(name);
+    };
+
+    mgr.addTask({
+      taskDesc: "阻塞任务",
+      task: () => new Promise((resolve) => setTimeout(resolve, 20)),
+    });
+
+    const firstId = mgr.addTask({
+      taskDesc: "保存设置1",
+      task: push("save1"),
+      key: "save",
+    });
+    const secondId = mgr.addTask({
+      taskDesc: "保存设置2",
+      task: push("save2"),
+      key: "save",
+    });
+    this.assert(firstId === secondId, "dropNew 应返回已在等待的任务id");
+
+    const refreshId = mgr.addTask({
+      taskDesc: "刷新列表1",
+      task: push("refresh1"),
+      key: "refresh",
+      dedupe: "replacePending",
+      onCancel: push("refresh1:cancelled"),
+    });
+    const latestId = mgr.addTask({
+      taskDesc: "刷新列表2",
+      task: push("refresh2"),
+      key: "refresh",
+      dedupe: "replacePending",
+    });
+    this.assert(!mgr.isTaskAlive(refreshId), "replacePending 应取消旧任务");
+    this.assert(mgr.isTaskAlive(latestId), "replacePending 应保留新任务");
+
+    await mgr.whenIdle();
+    this.assert(
+      results.join(",") === "refresh1:cancelled,save1,refresh2",
+      "相同 key 的任务只执行一次"
+    );
+  }
+
+  /**
+   * 测试37：按 key 合并运行中的任务（joinRunning）
+   */
+  static async test37_joinRunning(): Promise<void> {
+    console.log("\n=== 测试37：按 key 合并运行中的任务（joinRunning）===");
+    const mgr = TaskMgr.create({ dedupePolicy: "joinRunning" });
+    const results: string[] = [];
+    let runCount = 0;
+
+    const load = (caller: string) => ({
+      taskDesc: `加载配置-${caller}`,
+      key: "config",
+      task: () => {
+        runCount++;
+        return new Promise((resolve) => setTimeout(() => resolve("cfg"), 20));
+      },
+      resolve: (result: string) => {
+        results.push(`${caller}:${result}`);
+      },
+    });
+
+    const id1 = mgr.addTask(load("a"));
+    const id2 = mgr.addTask(load("b"));
+    const value = await mgr.runTask(load("c"));
+
+    this.assert(id1 === id2, "joinRunning 应返回运行中的任务id");
+    this.assert(runCount === 1, "相同 key 的任务只运行一次");
+    this.assert(value === "cfg", "runTask 合并后也应拿到结果");
+    this.assert(
+      results.join(",") === "a:cfg,b:cfg,c:cfg",
+      "所有调用方的 resolve 都应收到结果"
+    );
+  }
+
+  /**
+   * 测试38：全局限流
+   */
+  static async test38_rateLimit(): Promise<void> {
+    console.log("\n=== 测试38：全局限流 ===");
+    const mgr = TaskMgr.create({
+      maxConcurrency: 10,
+      rateLimit: { type: "slidingWindow", limit: 2, windowMs: 40 },
+    });
+    const results: string[] = [];
+
+    for (let i = 1; i <= 5; i++) {
+      mgr.addTask({
+        taskDesc: `请求${i}`,
+        task: () => {
+          results.push(`req${i}`);
+        },
+      });
+    }
+
+    this.assert(results.length === 2, "窗口内最多启动2个任务");
+    await this.wait(50);
+    this.assert(
+      results.join(",") === "req1,req2,req3,req4",
+      "窗口滑过后按顺序继续启动"
+    );
+    await mgr.whenIdle();
+    this.assert(results.length === 5, "所有任务最终都应执行");
+  }
+
+  /**
+   * 测试39：分组限流互不阻塞
+   */
+  static async test39_rateGroups(): Promise<void> {
+    console.log("\n=== 测试39：分组限流互不阻塞 ===");
+    const mgr = TaskMgr.create({
+      rateGroups: {
+        slowApi: { type: "tokenBucket", capacity: 1, refillPerSecond: 25 },
+      },
+    });
+    const results: string[] = [];
+    const push = (name: string) => () => {
+      results.push(name);
+    };
+
+    mgr.addTask({
+      taskDesc: "慢接口1",
+      task: push("slow1"),
+      rateGroup: "slowApi",
+    });
+    const cancelId = mgr.addTask({
+      taskDesc: "慢接口2",
+      task: push("slow2"),
+      rateGroup: "slowApi",
+    });
+    mgr.addTask({
+      taskDesc: "慢接口3",
+      task: push("slow3"),
+      rateGroup: "slowApi",
+    });
+    mgr.addTask({ taskDesc: "本地任务", task: push("local") });
+
+    this.assert(
+      results.join(",") === "slow1,local",
+      "等待额度的分组不应阻塞其它任务"
+    );
+    mgr.cancelTask(cancelId);
+
+    await this.wait(60);
+    this.assert(
+      results.join(",") === "slow1,local,slow3",
+      "额度恢复后继续执行，等待中被取消的任务不执行"
+    );
+
+    let thrown = false;
+    try {
+      mgr.addTask({ taskDesc: "未知分组", task: push("x"), rateGroup: "none" });
+    } catch (e) {
+      thrown = true;
+    }
+    this.assert(thrown, "未配置的限流分组应抛错");
+  }
+
+  /**
+   * 测试40：任务组整体取消与等待
+   */
+  static async test40_groupCancelAll(): Promise<void> {
+    console.log("\n=== 测试40：任务组整体取消与等待 ===");
+    const mgr = TaskMgr.create({ maxConcurrency: 1 });
+    const group = mgr.createGroup("下载");
+    const results: string[] = [];
+    let aborted = false;
+
+    group.addTask({
+      taskDesc: "下载1",
+      task: (ctx) =>
+        new Promise<void>((resolve) => {
+          ctx.signal.addEventListener("abort", () => {
+            aborted = true;
+          });
+          setTimeout(resolve, 30);
+        }),
+    });
+    group.addTask({ taskDesc: "下载2", task: () => results.push("d2") });
+    mgr.addTask({ taskDesc: "组外任务", task: () => results.push("other") });
+
+    this.assert(group.pendingCount === 2, "组内应有2个未结束的任务");
+    group.cancelAll();
+    const entries = await group.whenSettled();
+
+    this.assert(aborted, "运行中的组内任务应收到 abort 信号");
+    this.assert(
+      entries.map((entry) => entry.status).join(",") === "cancelled,cancelled",
+      "组内任务都应被取消"
+    );
+    this.assert(results.join(",") === "other", "组外任务不受影响");
+
+    const done = await mgr.createGroup("空组").whenSettled();
+    this.assert(done.length === 0, "空组应立即完成");
+  }
+
+  /**
+   * 测试41：任务组汇总结果与错误
+   */
+  static async test41_groupResults(): Promise<void> {
+    console.log("\n=== 测试41：任务组汇总结果与错误 ===");
+    const mgr = TaskMgr.create({ maxConcurrency: 2 });
+    const group = mgr.createGroup("请求");
+
+    const handle = group.runTask({
+      taskDesc: "请求1",
+      task: () => new Promise<number>((resolve) => setTimeout(resolve, 10, 1)),
+    });
+    group.addTask({
+      taskDesc: "请求2",
+      task: () => {
+        throw new Error("失败");
+      },
+      catch: () => {},
+    });
+    group.addTask({ taskDesc: "请求3", task: () => 3 });
+
+    const entries = await group.whenSettled();
+    this.assert((await handle) === 1, "组内 runTask 返回的句柄可正常 await");
+    this.assert(
+      entries.map((entry) => entry.taskDesc).join(",") === "请求1,请求2,请求3",
+      "结果应按添加顺序排列"
+    );
+    this.assert(group.results.join(",") === "1,3", "应汇总成功任务的结果");
+    this.assert(
+      group.errors.length === 1 && group.errors[0].message === "失败",
+      "应汇总失败任务的原因"
+    );
+
+    const later = group.whenSettled();
+    group.addTask({
+      taskDesc: "请求4",
+      task: () => new Promise<void>(() => {}),
+    });
+    mgr.clear();
+    const all = await later;
+    this.assert(all.length === 3, "添加新任务前已完成的等待只包含当时的任务");
+    this.assert(
+      group.entries[3].reason instanceof TaskCancelledError &&
+        group.entries[3].reason.cleared,
+      "clear 丢弃的组内任务应记录为取消"
+    );
+  }
+
+  /**
+   * 测试42：运行统计
+   */
+  static async test42_stats(): Promise<void> {
+    console.log("\n=== 测试42：运行统计 ===");
+    const mgr = TaskMgr.create({ maxConcurrency: 1, stats: true });
+
+    mgr.addTask({
+      taskDesc: "慢任务",
+      category: "io",
+      task: () => new Promise<void>((resolve) => setTimeout(resolve, 20)),
+    });
+    mgr.addTask({
+      taskDesc: "失败任务",
+      category: "io",
+      task: () => {
+        throw new Error("失败");
+      },
+      catch: () => {},
+    });
+    const cancelId = mgr.addTask({ taskDesc: "取消任务", task: () => {} });
+    mgr.cancelTask(cancelId);
+
+    let stats = mgr.getStats();
+    this.assert(
+      stats.queued === 1 && stats.running === 1,
+      "应统计当前排队和运行中的任务数"
+    );
+
+    await mgr.whenIdle();
+    stats = mgr.getStats();
+    this.assert(
+      stats.enqueued === 3 &&
+        stats.succeeded === 1 &&
+        stats.failed === 1 &&
+        stats.cancelled === 1,
+      "应统计各状态的任务数"
+    );
+    const io = stats.categories["io"];
+    this.assert(
+      io.run.count === 2 && io.run.max >= 15,
+      "应按 category 统计执行耗时"
+    );
+    this.assert(io.wait.p99 >= 15, "排在慢任务之后的任务应有排队耗时");
+    this.assert(
+      stats.categories["取消任务"].cancelled === 1,
+      "未指定 category 时按 taskDesc 分类"
+    );
+
+    mgr.resetStats();
+    this.assert(
+      mgr.getStats().enqueued === 0 &&
+        Object.keys(mgr.getStats().categories).length === 0,
+      "resetStats 应清空统计"
+    );
+
+    const plain = TaskMgr.create();
+    plain.addTask({ taskDesc: "普通任务", task: () => {} });
+    this.assert(plain.getStats().enqueued === 0, "未开启统计时不计数");
+  }
+
+  /**
+   * 测试43：调试模式包装失败原因
+   */
+  static async test43_debugTaskError(): Promise<void> {
+    console.log("\n=== 测试43：调试模式包装失败原因 ===");
+    const mgr = TaskMgr.create({ debug: true });
+    const cause = new Error("原始错误");
+    let syncError: any;
+    let asyncError: any;
+
+    const addFailingTask = () =>
+      mgr.addTask({
+        taskDesc: "同步失败",
+        task: () => {
+          throw cause;
+        },
+        catch: (e) => (syncError = e),
+      });
+    const id = addFailingTask();
+
+    this.assert(syncError instanceof TaskError, "失败原因应包装为 TaskError");
+    this.assert(
+      syncError.cause === cause &&
+        syncError.taskId === id &&
+        syncError.taskDesc === "同步失败",
+      "TaskError 应携带原始原因、任务id和描述"
+    );
+    this.assert(
+      syncError.enqueueStack.includes("addFailingTask") &&
+        syncError.stack.includes("addFailingTask"),
+      "TaskError 应携带添加任务时的调用堆栈"
+    );
+
+    mgr.addTask({
+      taskDesc: "异步重试失败",
+      task: () => Promise.reject(new Error("异步错误")),
+      retry: { maxAttempts: 2, delayMs: 5 },
+      reject: (e) => (asyncError = e),
+    });
+    await mgr.whenIdle();
+    this.assert(
+      asyncError instanceof TaskError &&
+        asyncError.cause instanceof TaskRetryError,
+      "重试用尽的错误也应被包装"
+    );
+    this.assert(
+      asyncError.timings.attemptStartTimes.length === 2 &&
+        asyncError.timings.failedAt >= asyncError.timings.enqueuedAt,
+      "TaskError 应记录每次尝试的开始时间"
+    );
+
+    let plainError: any;
+    TaskMgr.create().addTask({
+      taskDesc: "非调试模式",
+      task: () => {
+        throw cause;
+      },
+      catch: (e) => (plainError = e),
+    });
+    this.assert(plainError === cause, "非调试模式不包装失败原因");
+  }
+
+  /**
+   * 测试44：自定义日志与未处理错误
+   */
+  static async test44_loggerAndUnhandledError(): Promise<void> {
+    console.log("\n=== 测试44：自定义日志与未处理错误 ===");
+    const logs: Array<{ message: string; fields?: Record<string, any> }> = [];
+    const record = (message: string, fields?: Record<string, any>) => {
+      logs.push({ message, fields });
+    };
+    const logger = { debug: record, info: record, warn: record, error: record };
+
+    const mgr = TaskMgr.create({ logger });
+    const error = new Error("未处理");
+    mgr.addTask({
+      taskDesc: "同步失败",
+      task: () => {
+        throw error;
+      },
+    });
+    this.assert(
+      logs.length === 1 &&
+        logs[0].message === "[TaskMgr] 未捕获的同步任务异常 [同步失败]:" &&
+        logs[0].fields!.error === error,
+      "未处理的错误应通过 logger.error 输出"
+    );
+
+    mgr.on("started", () => {
+      throw new Error("监听器错误");
+    });
+    mgr.addTask({ taskDesc: "普通任务", task: () => {} });
+    this.assert(
+      logs.length === 2 && logs[1].fields!.event === "started",
+      "事件监听器异常也应通过 logger 输出"
+    );
+
+    const unhandled: Array<{ error: any; taskDesc: string; id: number }> = [];
+    const hooked = TaskMgr.create({
+      logger,
+      onUnhandledError: (e, task) => {
+        unhandled.push({ error: e, taskDesc: task.taskDesc, id: task.id });
+      },
+    });
+    const id = hooked.addTask({
+      taskDesc: "异步失败",
+      task: () => Promise.reject(error),
+    });
+    hooked.addTask({
+      taskDesc: "有 catch",
+      task: () => Promise.reject(error),
+      catch: () => {},
+    });
+    await hooked.whenIdle();
+    this.assert(
+      unhandled.length === 1 &&
+        unhandled[0].error === error &&
+        unhandled[0].taskDesc === "异步失败" &&
+        unhandled[0].id === id,
+      "没有 reject/catch 的任务失败应调用 onUnhandledError"
+    );
+    this.assert(logs.length === 2, "设置 onUnhandledError 后不再输出日志");
+  }
+
+  /**
+   * 测试45：延迟任务与定时任务
+   */
+  static async test45_delayedTasks(): Promise<void> {
+    console.log("\n=== 测试45：延迟任务与定时任务 ===");
+    const mgr = TaskMgr.create();
+    const results: string[] = [];
+
+    mgr.addTask({
+      taskDesc: "延迟任务",
+      delayMs: 20,
+      task: () => results.push("delayed"),
+    });
+    mgr.addTask({
+      taskDesc: "定时任务",
+      runAt: new Date(Date.now() + 10),
+      task: () => results.push("runAt"),
+    });
+    const cancelId = mgr.addTask({
+      taskDesc: "被取消的延迟任务",
+      delayMs: 10,
+      task: () => results.push("cancelled"),
+    });
+    mgr.addTask({ taskDesc: "普通任务", task: () => results.push("normal") });
+
+    this.assert(results.join(",") === "normal", "延迟任务不应立即执行");
+    this.assert(mgr.isTaskAlive(cancelId), "等待中的延迟任务应视为存活");
+    this.assert(mgr.getStats().scheduled === 3, "应统计等待执行时间的任务数");
+    mgr.cancelTask(cancelId);
+    this.assert(!mgr.isTaskAlive(cancelId), "取消后的延迟任务不再存活");
+
+    await mgr.whenIdle();
+    this.assert(
+      results.join(",") === "normal,runAt,delayed",
+      "延迟任务应按到期时间进入队列"
+    );
+
+    const clearMgr = TaskMgr.create();
+    let executed = false;
+    clearMgr.addTask({
+      taskDesc: "clear 前的延迟任务",
+      delayMs: 10,
+      task: () => (executed = true),
+    });
+    clearMgr.clear();
+    await this.wait(20);
+    this.assert(!executed, "clear 应丢弃延迟任务");
+  }
+
+  /**
+   * 测试46：重复任务
+   */
+  static async test46_repeatingTasks(): Promise<void> {
+    console.log("\n=== 测试46：重复任务 ===");
+    const mgr = TaskMgr.create();
+    const results: number[] = [];
+    const errors: string[] = [];
+    let count = 0;
+
+    const handle = mgr.runTask({
+      taskDesc: "重复任务",
+      repeatEvery: 5,
+      repeatTimes: 3,
+      task: () => {
+        count++;
+        if (count === 2) {
+          throw new Error("第2次失败");
+        }
+        return count;
+      },
+      resolve: (result) => results.push(result),
+      catch: (e) => errors.push(e.message),
+    });
+
+    this.assert(results.join(",") === "1", "第一次应立即执行");
+    this.assert(mgr.isTaskAlive(handle.id), "重复间隔中任务仍存活");
+    this.assert((await handle) === 3, "句柄应在最后一次执行后 resolve");
+    this.assert(
+      results.join(",") === "1,3" && errors.join(",") === "第2次失败",
+      "每次执行应分别触发回调"
+    );
+    this.assert(!mgr.isTaskAlive(handle.id), "达到最多执行次数后任务结束");
+
+    let ticks = 0;
+    const id = mgr.addTask({
+      taskDesc: "不限次数的重复任务",
+      repeatEvery: 5,
+      task: () => ticks++,
+    });
+    await this.wait(30);
+    mgr.cancelTask(id);
+    const ticksAtCancel = ticks;
+    await this.wait(20);
+    this.assert(
+      ticksAtCancel >= 2 && ticks === ticksAtCancel,
+      "取消后重复任务不再执行"
+    );
+  }
+
+  /**
+   * 测试47：虚拟时钟
+   */
+  static async test47_virtualClock(): Promise<void> {
+    console.log("\n=== 测试47：虚拟时钟 ===");
+    const clock = new VirtualClock();
+    const mgr = TaskMgr.create({
+      clock,
+      maxConcurrency: 2,
+      rateLimit: { type: "slidingWindow", limit: 2, windowMs: 1000 },
+    });
+    const results: string[] = [];
+    let timeoutError: any;
+    let attempts = 0;
+
+    mgr.addTask({
+      taskDesc: "延迟任务",
+      delayMs: 5000,
+      task: () => results.push("delayed@" + clock.now()),
+    });
+    mgr.addTask({
+      taskDesc: "超时任务",
+      timeoutMs: 3000,
+      task: () => new Promise<void>(() => {}),
+      catch: (e) => (timeoutError = e),
+    });
+    mgr.addTask({
+      taskDesc: "重试任务",
+      retry: { maxAttempts: 3, delayMs: 100, blockQueue: false },
+      task: () => {
+        attempts++;
+        if (attempts < 3) {
+          throw new Error("重试");
+        }
+        results.push("retried@" + clock.now());
+      },
+    });
+
+    await clock.advance(999);
+    this.assert(attempts === 1, "限流窗口内第3个任务不应开始");
+    await clock.advance(1);
+    this.assert(attempts === 2, "限流窗口过后重试任务开始");
+
+    await clock.advance(2000);
+    this.assert(
+      timeoutError instanceof TaskTimeoutError &&
+        timeoutError.elapsedMs === 3000,
+      "虚拟时间到达 timeoutMs 时任务超时"
+    );
+    this.assert(
+      results.join(",") === "retried@1100",
+      "重试按虚拟时间的退避和限流执行"
+    );
+
+    await clock.runAllPending();
+    this.assert(
+      results.join(",") === "retried@1100,delayed@5000",
+      "runAllPending 应触发所有计时器"
+    );
+    this.assert(clock.pendingCount === 0, "不应留下未触发的计时器");
+  }
+
+  /**
+   * 测试48：中间件
+   */
+  static async test48_middleware(): Promise<void> {
+    console.log("\n=== 测试48：中间件 ===");
+    const mgr = TaskMgr.create();
+    const trace: string[] = [];
+
+    mgr.use((ctx, next) => {
+      trace.push(`outer-before:${ctx.taskDesc}`);
+      const result = next();
+      trace.push(`outer-after:${ctx.taskDesc}`);
+      return result;
+    });
+    const removeDouble = mgr.use((ctx, next) => {
+      const result = next();
+      return result instanceof Promise
+        ? result.then((value) => value * 2)
+        : result * 2;
+    });
+
+    let syncResult: any;
+    mgr.addTask({
+      taskDesc: "同步",
+      task: () => 1,
+      resolve: (r) => (syncResult = r),
+    });
+    this.assert(syncResult === 2, "中间件可修改同步任务的结果");
+    this.assert(
+      trace.join(",") === "outer-before:同步,outer-after:同步",
+      "先注册的中间件在外层"
+    );
+
+    const asyncResult = await mgr.runTask({
+      taskDesc: "异步",
+      task: () => Promise.resolve(5),
+    });
+    this.assert(asyncResult === 10, "中间件可修改异步任务的结果");
+
+    removeDouble();
+    mgr.use((ctx, next) => {
+      try {
+        return next();
+      } catch (e) {
+        throw new Error(`已转换: ${(e as Error).message}`);
+      }
+    });
+    mgr.use((ctx, next) => (ctx.taskDesc === "缓存命中" ? "cached" : next()));
+
+    let caught: any;
+    mgr.addTask({
+      taskDesc: "失败",
+      task: () => {
+        throw new Error("原始");
+      },
+      catch: (e) => (caught = e),
+    });
+    this.assert(caught?.message === "已转换: 原始", "中间件可转换错误");
+
+    let executed = false;
+    const cached = await mgr.runTask({
+      taskDesc: "缓存命中",
+      task: () => {
+        executed = true;
+        return "fresh";
+      },
+    });
+    this.assert(
+      cached === "cached" && !executed,
+      "中间件不调用 next 时任务不执行"
+    );
+  }
+
+  /**
+   * 测试49：子队列随父队列 clear 和暂停
+   */
+  static async test49_childQueue(): Promise<void> {
+    console.log("\n=== 测试49：子队列随父队列 clear 和暂停 ===");
+    const app = TaskMgr.create({ stats: true });
+    const screen = app.createChild({ stats: true });
+    const results: string[] = [];
+
+    app.pause();
+    screen.addTask({ taskDesc: "页面任务1", task: () => results.push("s1") });
+    this.assert(screen.isPaused, "父队列暂停时子队列视为暂停");
+    this.assert(results.length === 0, "父队列暂停时子队列不启动任务");
+    app.resume();
+    this.assert(results.join(",") === "s1", "父队列恢复后子队列继续执行");
+
+    let aborted = false;
+    screen.addTask({
+      taskDesc: "页面异步任务",
+      task: (ctx) =>
+        new Promise<void>(() => {
+          ctx.signal.addEventListener("abort", () => (aborted = true));
+        }),
+    });
+    screen.addTask({ taskDesc: "页面任务2", task: () => results.push("s2") });
+    app.clear();
+    await this.wait(10);
+    this.assert(aborted, "父队列 clear 时子队列的任务被中止");
+    this.assert(
+      results.join(",") === "s1" && !screen.getStats().queued,
+      "父队列 clear 时子队列被清空"
+    );
+    this.assert(
+      app.getStats().enqueued === 3 && screen.getStats().enqueued === 3,
+      "子队列的统计同时计入父队列"
+    );
+
+    screen.destroy();
+    app.clear();
+    screen.addTask({ taskDesc: "解除关联后", task: () => results.push("s3") });
+    this.assert(
+      results.join(",") === "s1,s3" && app.getStats().enqueued === 3,
+      "destroy 后子队列独立运行，统计不再计入父队列"
+    );
+  }
+
+  /**
+   * 测试50：子队列在父队列中只占用一个槽位
+   */
+  static async test50_childSharedSlot(): Promise<void> {
+    console.log("\n=== 测试50：子队列在父队列中只占用一个槽位 ===");
+    const app = TaskMgr.create({ maxConcurrency: 1 });
+    const screen = app.createChild({
+      name: "页面",
+      maxConcurrency: 2,
+      shareSlot: true,
+    });
+    const results: string[] = [];
+    const delay = (name: string, ms: number) => () =>
+      new Promise<void>((resolve) =>
+        setTimeout(() => {
+          results.push(name);
+          resolve();
+        }, ms)
+      );
+
+    screen.addTask({ taskDesc: "页面任务1", task: delay("s1", 20) });
+    screen.addTask({ taskDesc: "页面任务2", task: delay("s2", 10) });
+    app.addTask({ taskDesc: "应用任务", task: delay("app", 1) });
+    this.assert(
+      app.getStats().running === 1 && screen.getStats().running === 2,
+      "子队列内部并发，在父队列中只占一个槽位"
+    );
+
+    await app.whenIdle();
+    this.assert(
+      results.join(",") === "s2,s1,app",
+      "父队列的任务等子队列归还槽位后执行"
+    );
+
+    let slotId = -1;
+    app.on("started", (e) => (slotId = e.id));
+    const forever = () => new Promise<void>(() => {});
+    screen.addTask({ taskDesc: "页面任务3", task: forever });
+    screen.addTask({ taskDesc: "页面任务4", task: forever });
+    const queuedId = screen.addTask({
+      taskDesc: "页面任务5",
+      task: () => results.push("s5"),
+    });
+    this.assert(app.isTaskAlive(slotId), "子队列有任务时重新申请槽位");
+    app.cancelTask(slotId);
+    this.assert(
+      !screen.isTaskAlive(queuedId) && screen.getStats().running === 0,
+      "父队列取消槽位任务时子队列被清空"
+    );
+  }
+
+  /**
+   * 测试51：资源锁
+   */
+  static async test51_resourceLocks(): Promise<void> {
+    console.log("\n=== 测试51：资源锁 ===");
+    const mgr = TaskMgr.create({ maxConcurrency: 10 });
+    const events: string[] = [];
+    const work = (name: string, ms: number) => () => {
+      events.push(`${name}+`);
+      return new Promise<void>((resolve) =>
+        setTimeout(() => {
+          events.push(`${name}-`);
+          resolve();
+        }, ms)
+      );
+    };
+
+    mgr.addTask({
+      taskDesc: "写存档1",
+      resources: ["save1"],
+      task: work("w1", 20),
+    });
+    mgr.addTask({
+      taskDesc: "写存档2",
+      resources: ["save2"],
+      task: work("w2", 10),
+    });
+    mgr.addTask({
+      taskDesc: "再写存档1",
+      resources: ["save1"],
+      task: work("w1b", 5),
+    });
+    mgr.addTask({ taskDesc: "无资源任务", task: work("free", 5) });
+
+    this.assert(
+      events.join(",") === "w1+,w2+,free+",
+      "不冲突的任务并发执行，冲突的任务等待"
+    );
+    await mgr.whenIdle();
+    this.assert(
+      events.indexOf("w1b+") > events.indexOf("w1-"),
+      "冲突的任务在前一个任务结束后执行"
+    );
+
+    events.length = 0;
+    mgr.addTask({
+      taskDesc: "读配置1",
+      resources: [{ name: "config", mode: "read" }],
+      task: work("r1", 20),
+    });
+    mgr.addTask({
+      taskDesc: "读配置2",
+      resources: [{ name: "config", mode: "read" }],
+      task: work("r2", 5),
+    });
+    mgr.addTask({
+      taskDesc: "写配置",
+      resources: [{ name: "config", mode: "write" }],
+      task: work("w", 5),
+    });
+    mgr.addTask({
+      taskDesc: "读配置3",
+      resources: [{ name: "config", mode: "read" }],
+      task: work("r3", 5),
+    });
+
+    this.assert(events.join(",") === "r1+,r2+", "读与读之间可以并发");
+    await mgr.whenIdle();
+    this.assert(
+      events.join(",") === "r1+,r2+,r2-,r1-,w+,w-,r3+,r3-",
+      "冲突任务按入队顺序执行，后入队的读不越过等待中的写"
+    );
+  }
+
+  /**
+   * 测试52：队列快照与恢复
+   */
+  static async test52_snapshotRestore(): Promise<void> {
+    console.log("\n=== 测试52：队列快照与恢复 ===");
+    const results: string[] = [];
+    const registry = {
+      upload: (payload: { file: string }) => {
+        results.push(`upload:${payload.file}`);
+      },
+      report: (payload: string) => {
+        results.push(`report:${payload}`);
+      },
+    };
+
+    const mgr = TaskMgr.create();
+    mgr.register("upload", registry.upload);
+    mgr.register("report", registry.report);
+    mgr.addTask({
+      taskDesc: "运行中",
+      task: () => new Promise<void>(() => {}),
+    });
+    mgr.addTask({ taskDesc: "闭包任务", task: () => results.push("closure") });
+    const a = mgr.addNamedTask({
+      taskDesc: "上传a",
+      name: "upload",
+      payload: { file: "a" },
+    });
+    mgr.addNamedTask({
+      taskDesc: "上报",
+      name: "report",
+      payload: "after-a",
+      dependsOn: [a],
+    });
+    mgr.addNamedTask({
+      taskDesc: "上传b",
+      name: "upload",
+      payload: { file: "b" },
+      priority: "high",
+    });
+
+    const storage = new MemorySnapshotStorage();
+    await mgr.persist(storage);
+    const snapshot = (await storage.load())!;
+    this.assert(
+      snapshot.tasks.map((t) => t.taskDesc).join(",") === "上传a,上报,上传b",
+      "快照只包含按注册名添加的未结束任务"
+    );
+    this.assert(
+      snapshot.tasks[1].dependsOn?.join(",") === "0",
+      "依赖保存为快照中的下标"
+    );
+
+    const restored = await TaskMgr.load(storage, registry);
+    this.assert(
+      results.join(",") === "upload:b,upload:a,report:after-a",
+      "恢复后按优先级和依赖执行"
+    );
+    this.assert(
+      restored.snapshot().tasks.length === 0,
+      "恢复后的任务执行完后快照为空"
+    );
+
+    let threw = false;
+    try {
+      mgr.addNamedTask({ taskDesc: "未注册", name: "missing" });
+    } catch (e) {
+      threw = true;
+    }
+    this.assert(threw, "未注册的任务名应抛错");
+  }
+
+  /**
+   * 测试53：快照包含中断的任务并保存到文件
+   */
+  static async test53_snapshotFileStorage(): Promise<void> {
+    console.log("\n=== 测试53：快照包含中断的任务并保存到文件 ===");
+    const filePath = path.join(
+      os.tmpdir(),
+      `taskmgr-snapshot-${process.pid}.json`
+    );
+    const storage = new FileSnapshotStorage(filePath);
+    const mgr = TaskMgr.create();
+    mgr.register("sync", () => new Promise<void>(() => {}));
+    mgr.addNamedTask({ taskDesc: "同步中", name: "sync", payload: 1 });
+    mgr.addNamedTask({
+      taskDesc: "定时同步",
+      name: "sync",
+      payload: 2,
+      delayMs: 60000,
+      repeatEvery: 1000,
+      repeatTimes: 5,
+    });
+
+    this.assert(mgr.snapshot().tasks.length === 1, "默认不包含运行中的任务");
+    await mgr.persist(storage, { includeRunning: true });
+    const snapshot = (await storage.load())!;
+    this.assert(
+      snapshot.tasks[0].interrupted === true && snapshot.tasks[0].payload === 1,
+      "includeRunning 时运行中的任务标记为中断"
+    );
+    this.assert(
+      snapshot.tasks[1].runAt! > Date.now() &&
+        snapshot.tasks[1].repeatTimes === 5,
+      "应保存执行时间和剩余执行次数"
+    );
+
+    await storage.clear();
+    this.assert((await storage.load()) === undefined, "clear 后读取不到快照");
+    mgr.clear();
+  }
+
+  /**
+   * 测试54：多次 clear 后任务id仍唯一
+   */
+  static async test54_idsSurviveManyClears(): Promise<void> {
+    console.log("\n=== 测试54：多次 clear 后任务id仍唯一 ===");
+    const mgr = TaskMgr.create();
+    const ids = new Set<number>();
+    const staleIds: number[] = [];
+    const forever = () => new Promise<void>(() => {});
+
+    for (let i = 0; i < 40; i++) {
+      const id = mgr.addTask({ taskDesc: `任务${i}`, task: forever });
+      ids.add(id);
+      staleIds.push(id);
+      mgr.clear();
+    }
+    this.assert(
+      ids.size === 40 && !ids.has(0),
+      "多次 clear 后任务id不应重复或为0"
+    );
+
+    const results: string[] = [];
+    const blocker = mgr.addTask({ taskDesc: "阻塞", task: forever });
+    const id = mgr.addTask({
+      taskDesc: "新任务",
+      task: () => results.push("new"),
+    });
+    this.assert(!ids.has(blocker) && !ids.has(id), "新任务id不与旧id重复");
+    this.assert(
+      staleIds.every((staleId) => !mgr.isTaskAlive(staleId)),
+      "clear 前的id应视为已结束"
+    );
+    for (const staleId of staleIds) {
+      mgr.cancelTask(staleId);
+    }
+    mgr.cancelTask(blocker);
+    this.assert(results.join(",") === "new", "取消旧id不应影响新任务");
+  }
+
+  /**
+   * 测试55：取消排队中的任务立即移出队列
+   */
+  static async test55_eagerCancel(): Promise<void> {
+    console.log("\n=== 测试55：取消排队中的任务立即移出队列 ===");
+    const mgr = TaskMgr.create();
+    const results: number[] = [];
+    const forever = () => new Promise<void>(() => {});
+    const blocker = mgr.addTask({ taskDesc: "阻塞", task: forever });
+    const ids: number[] = [];
+    for (let i = 0; i < 1000; i++) {
+      ids.push(
+        mgr.addTask({ taskDesc: `任务${i}`, task: () => results.push(i) })
+      );
+    }
+    this.assert(mgr.getStats().queued === 1000, "排队任务数应为1000");
+
+    for (let i = 0; i < ids.length; i += 2) {
+      mgr.cancelTask(ids[i]);
+    }
+    this.assert(mgr.getStats().queued === 500, "取消后应立即移出队列");
+    this.assert(
+      !mgr.isTaskAlive(ids[0]) && mgr.isTaskAlive(ids[1]),
+      "取消的任务不再存活，其余任务仍存活"
+    );
+
+    mgr.cancelTask(blocker);
+    await this.wait(10);
+    this.assert(
+      results.length === 500 && results.every((i) => i % 2 === 1),
+      "只执行未取消的任务"
+    );
+    this.assert(
+      results.every((value, i) => i === 0 || value > results[i - 1]),
+      "剩余任务应保持原有顺序"
+    );
+    this.assert(!mgr.isTaskAlive(ids[1]), "执行完的任务不再存活");
+  }
+
+  /**
+   * 测试56：大量同步任务不递归
+   */
+  static async test56_longSyncChain(): Promise<void> {
+    console.log("\n=== 测试56：大量同步任务不递归 ===");
+    const mgr = TaskMgr.create({ maxConcurrency: 2 });
+    let count = 0;
+    mgr.pause();
+    for (let i = 0; i < 20000; i++) {
+      mgr.addTask({ taskDesc: `同步${i}`, task: () => count++ });
+    }
+    mgr.resume();
+    this.assert(count === 20000, "大量同步任务不应导致栈溢出");
+
+    const results: string[] = [];
+    mgr.addTask({
+      taskDesc: "外层",
+      task: () => {
+        results.push("outer-start");
+        mgr.addTask({ taskDesc: "内层", task: () => results.push("inner") });
+        results.push("outer-end");
+      },
+    });
+    this.assert(
+      results.join(",") === "outer-start,outer-end,inner",
+      "任务中添加的任务应在当前任务返回后启动"
+    );
+  }
+
+  /**
+   * 测试57：让出事件循环
+   */
+  static async test57_yieldToEventLoop(): Promise<void> {
+    console.log("\n=== 测试57：让出事件循环 ===");
+    const clock = new VirtualClock();
+    const mgr = TaskMgr.create({ clock, yieldEvery: 3 });
+    let count = 0;
+    mgr.pause();
+    for (let i = 0; i < 7; i++) {
+      mgr.addTask({ taskDesc: `同步${i}`, task: () => count++ });
+    }
+    mgr.resume();
+    this.assert(count === 3, "每次调度最多连续启动 yieldEvery 个任务");
+    mgr.addTask({ taskDesc: "让出期间添加", task: () => count++ });
+    this.assert(count === 3, "让出期间不应继续启动任务");
+    await clock.advance(0);
+    this.assert(
+      count === 8 && clock.pendingCount === 0,
+      "计时器触发后继续调度直到执行完"
+    );
+
+    mgr.pause();
+    for (let i = 0; i < 5; i++) {
+      mgr.addTask({ taskDesc: `同步${i}`, task: () => count++ });
+    }
+    mgr.resume();
+    mgr.clear();
+    await clock.runAllPending();
+    this.assert(
+      count === 11 && clock.pendingCount === 0,
+      "clear 应取消让出计时器"
+    );
+
+    const timed = TaskMgr.create({ yieldAfterMs: 10 });
+    let timedCount = 0;
+    timed.pause();
+    for (let i = 0; i < 10; i++) {
+      timed.addTask({
+        taskDesc: `耗时${i}`,
+        task: () => {
+          const end = Date.now() + 4;
+          while (Date.now() < end) {}
+          timedCount++;
+        },
+      });
+    }
+    timed.resume();
+    this.assert(timedCount < 10, "超过 yieldAfterMs 时应让出事件循环");
+    await timed.whenIdle();
+    this.assert(timedCount === 10, "让出后应执行完剩余任务");
+  }
+
+  /**
+   * 测试58：生成器任务按帧推进
+   */
+  static async test58_generatorTasks(): Promise<void> {
+    console.log("\n=== 测试58：生成器任务按帧推进 ===");
+    let tick: (() => void) | undefined;
+    const ticker = {
+      subscribe: (callback: () => void) => {
+        tick = callback;
+        return () => (tick = undefined);
+      },
+    };
+    // 预算为0时每帧只推进一步
+    const mgr = TaskMgr.create({ ticker, frameBudgetMs: 0, maxConcurrency: 2 });
+    const steps: string[] = [];
+
+    const a = mgr.runTask({
+      taskDesc: "生成器A",
+      task: function* () {
+        steps.push("a1");
+        yield;
+        steps.push("a2");
+        return "A";
+      },
+    });
+    const b = mgr.runTask({
+      taskDesc: "生成器B",
+      task: async function* () {
+        steps.push("b1");
+        yield;
+        await Promise.resolve();
+        steps.push("b2");
+        return "B";
+      },
+    });
+    this.assert(steps.length === 0 && !!tick, "生成器任务应在帧回调中推进");
+    tick!();
+    this.assert(steps.join(",") === "a1", "每帧在预算内推进");
+    tick!();
+    await this.wait(0);
+    tick!();
+    tick!();
+    await this.wait(0);
+    this.assert(
+      steps.join(",") === "a1,b1,a2,b2",
+      "多个生成器应轮流推进，异步生成器等待结果后继续"
+    );
+    this.assert(
+      (await a) === "A" && (await b) === "B",
+      "生成器返回值作为任务结果"
+    );
+    this.assert(tick === undefined, "没有生成器任务时应取消帧回调");
+
+    let caught: any;
+    mgr.addTask({
+      taskDesc: "抛出异常",
+      task: function* () {
+        yield;
+        throw new Error("生成器异常");
+      },
+      catch: (e) => (caught = e),
+    });
+    tick!();
+    tick!();
+    await this.wait(0);
+    this.assert(caught?.message === "生成器异常", "生成器抛出异常时任务失败");
+  }
+
+  /**
+   * 测试59：取消和 clear 停止推进生成器
+   */
+  static async test59_generatorCancel(): Promise<void> {
+    console.log("\n=== 测试59：取消和 clear 停止推进生成器 ===");
+    let tick: (() => void) | undefined;
+    const ticker = {
+      subscribe: (callback: () => void) => {
+        tick = callback;
+        return () => (tick = undefined);
+      },
+    };
+    const mgr = TaskMgr.create({ ticker, frameBudgetMs: 0 });
+    let steps = 0;
+    let cleanedUp = 0;
+    const endless = function* () {
+      try {
+        for (;;) {
+          steps++;
+          yield;
+        }
+      } finally {
+        cleanedUp++;
+      }
+    };
+
+    const handle = mgr.runTask({ taskDesc: "取消", task: endless });
+    tick!();
+    tick!();
+    mgr.cancelTask(handle.id);
+    this.assert(steps === 2 && cleanedUp === 1, "取消时应执行生成器的 finally");
+    this.assert(
+      tick === undefined &&
+        (await handle.catch((e) => e)) instanceof TaskCancelledError,
+      "取消后不再推进生成器"
+    );
+
+    mgr.addTask({ taskDesc: "clear", task: endless });
+    tick!();
+    mgr.clear();
+    this.assert(
+      steps === 3 && cleanedUp === 2 && tick === undefined,
+      "clear 后不再推进生成器"
+    );
+
+    const budgeted = TaskMgr.create({ frameBudgetMs: 10 });
+    let budgetedSteps = 0;
+    const done = budgeted.runTask({
+      taskDesc: "按预算推进",
+      task: function* () {
+        for (let i = 0; i < 20; i++) {
+          const end = Date.now() + 2;
+          while (Date.now() < end) {}
+          budgetedSteps++;
+          yield;
+        }
+      },
+    });
+    await this.wait(20);
+    this.assert(
+      budgetedSteps > 0 && budgetedSteps < 20,
+      "默认帧回调应按时间预算分帧推进"
+    );
+    await done;
+    this.assert(budgetedSteps === 20, "分帧推进直到生成器结束");
+  }
+
+  /**
+   * 测试60：不保留成功任务的记录
+   */
+  static async test60_settledRecords(): Promise<void> {
+    console.log("\n=== 测试60：不保留成功任务的记录 ===");
+    const mgr = TaskMgr.create();
+    const results: string[] = [];
+    const firstId = mgr.addTask({ taskDesc: "最早的任务", task: () => {} });
+    for (let i = 0; i < 5000; i++) {
+      mgr.addTask({ taskDesc: `同步${i}`, task: () => {} });
+    }
+    const failId = mgr.addTask({
+      taskDesc: "失败任务",
+      task: () => {
+        throw new Error("失败");
+      },
+      catch: () => {},
+    });
+
+    mgr.addTask({
+      taskDesc: "依赖最早的任务",
+      dependsOn: [firstId],
+      task: () => results.push("first"),
+    });
+    mgr.addTask({
+      taskDesc: "依赖失败任务",
+      dependsOn: [failId],
+      task: () => results.push("fail"),
+      reject: (e) =>
+        results.push(e instanceof TaskDependencyError ? "dependency" : ""),
+    });
+    this.assert(
+      results.join(",") === "first,dependency",
+      "依赖已成功的任务直接执行，依赖已失败的任务随之失败"
+    );
+
+    mgr.clear();
+    let message = "";
+    try {
+      mgr.addTask({
+        taskDesc: "依赖旧任务",
+        dependsOn: [firstId],
+        task: () => {},
+      });
+    } catch (e) {
+      message = (e as Error).message;
+    }
+    this.assert(
+      message.includes("依赖的任务不存在"),
+      "clear 前的任务id不能作为依赖"
+    );
+  }
+
+  /**
+   * 测试61：长依赖链的失败和取消不递归
+   */
+  static async test61_longDependencyChain(): Promise<void> {
+    console.log("\n=== 测试61：长依赖链的失败和取消不递归 ===");
+    const mgr = TaskMgr.create();
+    let failedCount = 0;
+    mgr.pause();
+    const failRoot = mgr.addTask({
+      taskDesc: "失败的根任务",
+      task: () => {
+        throw new Error("失败");
+      },
+      catch: () => {},
+    });
+    let prev = failRoot;
+    for (let i = 0; i < 20000; i++) {
+      prev = mgr.addTask({
+        taskDesc: `下游${i}`,
+        dependsOn: [prev],
+        task: () => {},
+        catch: () => failedCount++,
+      });
+    }
+    mgr.resume();
+    this.assert(
+      failedCount === 20000 && !mgr.isTaskAlive(prev),
+      "根任务失败应传递到整条依赖链"
+    );
+
+    const cancelRoot = mgr.addTask({
+      taskDesc: "被取消的根任务",
+      task: () => new Promise<void>(() => {}),
+    });
+    prev = cancelRoot;
+    for (let i = 0; i < 20000; i++) {
+      prev = mgr.addTask({
+        taskDesc: `下游${i}`,
+        dependsOn: [prev],
+        task: () => {},
+      });
+    }
+    mgr.cancelTask(cancelRoot);
+    this.assert(
+      !mgr.isTaskAlive(prev) && mgr.getStats().blocked === 0,
+      "取消根任务应取消整条依赖链"
+    );
+  }
+
+  /**
+   * 测试62：等待分组额度和资源的任务按入队顺序执行
+   */
+  static async test62_parkedTasks(): Promise<void> {
+    console.log("\n=== 测试62：等待分组额度和资源的任务按入队顺序执行 ===");
+    const mgr = TaskMgr.create({
+      maxConcurrency: 10,
+      rateGroups: {
+        slowApi: { type: "tokenBucket", capacity: 1, refillPerSecond: 25 },
+      },
+    });
+    const results: string[] = [];
+    const push = (name: string) => () => {
+      results.push(name);
+    };
+
+    mgr.addTask({ taskDesc: "分组1", task: push("g1"), rateGroup: "slowApi" });
+    mgr.addTask({
+      taskDesc: "分组读取",
+      task: push("gr"),
+      rateGroup: "slowApi",
+      resources: [{ name: "file", mode: "read" }],
+    });
+    mgr.addTask({
+      taskDesc: "写入",
+      task: push("w"),
+      resources: ["file"],
+    });
+    mgr.addTask({
+      taskDesc: "无关资源",
+      task: push("other"),
+      resources: ["db"],
+    });
+    this.assert(
+      results.join(",") === "g1,other",
+      "后入队的写入应等待先入队的读取，不冲突的任务照常执行"
+    );
+    await this.wait(60);
+    this.assert(
+      results.join(",") === "g1,other,gr,w",
+      "额度恢复后按入队顺序执行"
+    );
+
+    let release!: () => void;
+    mgr.addTask({
+      taskDesc: "占用资源",
+      task: () => new Promise<void>((resolve) => (release = resolve)),
+      resources: ["file"],
+    });
+    const order: number[] = [];
+    const ids: number[] = [];
+    for (let i = 0; i < 5000; i++) {
+      ids.push(
+        mgr.addTask({
+          taskDesc: `写入${i}`,
+          task: () => {
+            order.push(i);
+          },
+          resources: ["file"],
+        })
+      );
+    }
+    for (let i = 0; i < ids.length; i += 2) {
+      mgr.cancelTask(ids[i]);
+    }
+    this.assert(
+      mgr.getStats().queued === 2500,
+      "等待资源的任务应计入排队数，取消后移出"
+    );
+    release();
+    await mgr.whenIdle();
+    this.assert(
+      order.length === 2500 && order.every((n, i) => n === i * 2 + 1),
+      "资源释放后等待的任务应按入队顺序依次执行"
+    );
+  }
+
+  /**
+   * 测试63：依赖失败时重复任务不再重复
+   */
+  static async test63_repeatDependencyFailure(): Promise<void> {
+    console.log("\n=== 测试63：依赖失败时重复任务不再重复 ===");
+    const mgr = TaskMgr.create();
+    let runs = 0;
+    let failures = 0;
+    mgr.pause();
+    const dep = mgr.addTask({
+      taskDesc: "失败的依赖",
+      task: () => {
+        throw new Error("依赖失败");
+      },
+      catch: () => {},
+    });
+    const repeating = mgr.addTask({
+      taskDesc: "重复任务",
+      dependsOn: [dep],
+      task: () => {
+        runs++;
+      },
+      catch: () => failures++,
+      repeatEvery: 10,
+      repeatTimes: 3,
+    });
+    mgr.resume();
+    const late = mgr.addTask({
+      taskDesc: "依赖已失败的重复任务",
+      dependsOn: [dep],
+      task: () => {
+        runs++;
+      },
+      catch: () => failures++,
+      repeatEvery: 10,
+      repeatTimes: 3,
+    });
+
+    await this.wait(50);
+    this.assert(
+      runs === 0 && failures === 2,
+      "依赖失败后重复任务应只通知一次失败且不再执行"
+    );
+    this.assert(
+      !mgr.isTaskAlive(repeating) && !mgr.isTaskAlive(late),
+      "依赖失败后重复任务应结束"
+    );
+  }
+
+  /**
+   * 测试64：恢复父队列时启动孙队列的任务
+   */
+  static async test64_resumeGrandchild(): Promise<void> {
+    console.log("\n=== 测试64：恢复父队列时启动孙队列的任务 ===");
+    const root = TaskMgr.create();
+    const child = root.createChild();
+    const grandchild = child.createChild();
+    const results: string[] = [];
+
+    root.pause();
+    grandchild.addTask({
+      taskDesc: "孙队列任务",
+      task: () => {
+        results.push("grandchild");
+      },
+    });
+    this.assert(results.length === 0, "父队列暂停时孙队列不应执行");
+    root.resume();
+    this.assert(
+      results.join(",") === "grandchild",
+      "恢复父队列后孙队列的任务应执行"
+    );
+
+    const paused = root.createChild();
+    const pausedChild = paused.createChild();
+    root.pause();
+    paused.pause();
+    pausedChild.addTask({
+      taskDesc: "暂停子队列下的任务",
+      task: () => {
+        results.push("paused");
+      },
+    });
+    root.resume();
+    this.assert(
+      results.join(",") === "grandchild",
+      "自身暂停的子队列下的任务应继续等待"
+    );
+    paused.resume();
+    this.assert(
+      results.join(",") === "grandchild,paused",
+      "恢复子队列后其下的任务应执行"
+    );
+  }
+
+  /**
+   * 测试65：资源不冲突的任务仍受并发槽位限制
+   */
+  static async test65_resourcesDefaultConcurrency(): Promise<void> {
+    console.log("\n=== 测试65：资源不冲突的任务仍受并发槽位限制 ===");
+    const run = async (mgr: TaskMgr) => {
+      let running = 0;
+      let maxRunning = 0;
+      for (const name of ["save1", "save2", "save3"]) {
+        mgr.addTask({
+          taskDesc: name,
+          task: async () => {
+            maxRunning = Math.max(maxRunning, ++running);
+            await this.wait(5);
+            running--;
+          },
+          resources: [name],
+        });
+      }
+      await mgr.whenIdle();
+      return maxRunning;
+    };
+
+    this.assert(
+      (await run(TaskMgr.create())) === 1,
+      "默认并发为1时不冲突的任务也应依次执行"
+    );
+    this.assert(
+      (await run(TaskMgr.create({ maxConcurrency: 3 }))) === 3,
+      "配置并发数后不冲突的任务应同时执行"
+    );
+  }
+
+  /**
+   * 测试66：被 runTask 合并的任务仍报告未处理的失败
+   */
+  static async test66_joinedUnhandled(): Promise<void> {
+    console.log("\n=== 测试66：被 runTask 合并的任务仍报告未处理的失败 ===");
+    const unhandled: string[] = [];
+    const mgr = TaskMgr.create({
+      onUnhandledError: (e, task) => {
+        unhandled.push(task.taskDesc);
+      },
+    });
+    mgr.pause();
+    mgr.addTask({
+      taskDesc: "没有处理失败的任务",
+      key: "load",
+      task: async () => {
+        throw new Error("失败");
+      },
+    });
+    const joined = mgr.runTask({
+      taskDesc: "合并的任务",
+      key: "load",
+      task: async () => {},
+    });
+    mgr
+      .runTask({
+        taskDesc: "句柄接收失败的任务",
+        task: async () => {
+          throw new Error("失败");
+        },
+      })
+      .catch(() => {});
+    mgr.resume();
+
+    let rejected = false;
+    try {
+      await joined;
+    } catch (e) {
+      rejected = true;
+    }
+    await mgr.whenIdle();
+    this.assert(rejected, "合并的句柄应收到失败");
+    this.assert(
+      unhandled.join(",") === "没有处理失败的任务",
+      "原任务的失败应报告为未处理，runTask 添加的任务不应报告"
+    );
+  }
+
+  /**
+   * 测试67：resolve 回调抛出异常时不重试
+   */
+  static async test67_resolveThrowsNoRetry(): Promise<void> {
+    console.log("\n=== 测试67：resolve 回调抛出异常时不重试 ===");
+    const mgr = TaskMgr.create();
+    let runs = 0;
+    let resolves = 0;
+    const caught: any[] = [];
+    mgr.addTask({
+      taskDesc: "resolve 抛出异常",
+      task: () => {
+        runs++;
+        return 1;
+      },
+      resolve: () => {
+        resolves++;
+        throw new Error("回调异常");
+      },
+      catch: (e) => caught.push(e),
+      retry: { maxAttempts: 3 },
+    });
+    await this.wait(20);
+    this.assert(
+      runs === 1 && resolves === 1,
+      "任务成功后 resolve 抛出异常不应重新执行任务"
+    );
+    this.assert(
+      caught.length === 1 &&
+        !(caught[0] instanceof TaskRetryError) &&
+        caught[0].message === "回调异常",
+      "resolve 的异常应原样交给 catch"
+    );
+  }
+
+  /**
+   * 测试68：失败记录被丢弃后依赖仍按失败处理
+   */
+  static async test68_evictedFailedRecords(): Promise<void> {
+    console.log("\n=== 测试68：失败记录被丢弃后依赖仍按失败处理 ===");
+    const mgr = TaskMgr.create();
+    const ids: number[] = [];
+    for (let i = 0; i < 1001; i++) {
+      ids.push(
+        mgr.addTask({
+          taskDesc: `失败${i}`,
+          task: () => {
+            throw new Error("失败");
+          },
+          catch: () => {},
+        })
+      );
+    }
+    let ran = false;
+    let caught: any;
+    mgr.addTask({
+      taskDesc: "依赖最早失败的任务",
+      dependsOn: [ids[0]],
+      task: () => {
+        ran = true;
+      },
+      catch: (e) => (caught = e),
+    });
+    this.assert(!ran, "依赖的失败记录被丢弃后下游任务不应执行");
+    this.assert(
+      caught instanceof TaskDependencyError && caught.dependencyId === ids[0],
+      "下游任务应收到 TaskDependencyError"
+    );
+  }
+
+  /**
+   * 测试69：取消任务组不取消与组外共享的任务
+   */
+  static async test69_groupCancelShared(): Promise<void> {
+    console.log("\n=== 测试69：取消任务组不取消与组外共享的任务 ===");
+    const mgr = TaskMgr.create();
+    const results: string[] = [];
+    mgr.pause();
+    mgr.addTask({
+      taskDesc: "组外任务",
+      key: "shared",
+      task: () => results.push("shared"),
+      onCancel: () => results.push("cancelled"),
+    });
+    const screen = mgr.createGroup("界面");
+    const other = mgr.createGroup("另一个界面");
+    screen.addTask({ taskDesc: "组内合并", key: "shared", task: () => {} });
+    screen.addTask({
+      taskDesc: "两组共享",
+      key: "both",
+      task: () => {
+        results.push("both");
+      },
+    });
+    other.addTask({ taskDesc: "两组共享", key: "both", task: () => {} });
+    screen.addTask({ taskDesc: "组内独有", task: () => results.push("own") });
+
+    screen.cancelAll();
+    this.assert(
+      screen.entries.every((entry) => entry.status === "cancelled"),
+      "取消后本组的记录都应为取消"
+    );
+    mgr.resume();
+    this.assert(
+      results.join(",") === "shared,both",
+      "与组外或其它组共享的任务应继续执行，组内独有的任务应取消"
+    );
+    const entries = await other.whenSettled();
+    this.assert(
+      entries[0].status === "resolved",
+      "其它任务组应收到共享任务的结果"
+    );
+  }
+
+  /**
+   * 测试70：一次调度中多个回调异常不被吞掉
+   */
+  static async test70_callbackErrorsLogged(): Promise<void> {
+    console.log("\n=== 测试70：一次调度中多个回调异常不被吞掉 ===");
+    const errors: Array<{ message: string; fields?: Record<string, any> }> = [];
+    const noop = () => {};
+    const logger = {
+      debug: noop,
+      info: noop,
+      warn: noop,
+      error: (message: string, fields?: Record<string, any>) => {
+        errors.push({ message, fields });
+      },
+    };
+    const failing = (name: string) => ({
+      taskDesc: name,
+      task: () => {
+        throw new Error("失败");
+      },
+      catch: () => {
+        throw new Error(`cb-${name}`);
+      },
+    });
+
+    const mgr = TaskMgr.create({ logger });
+    mgr.pause();
+    mgr.addTask(failing("a"));
+    mgr.addTask(failing("b"));
+    let thrown = "";
+    try {
+      mgr.resume();
+    } catch (e) {
+      thrown = (e as Error).message;
+    }
+    this.assert(thrown === "cb-a", "第一个回调异常应抛给调用方");
+    this.assert(
+      errors.length === 1 &&
+        errors[0].fields?.taskDesc === "b" &&
+        errors[0].fields?.error.message === "cb-b",
+      "之后的回调异常应写入日志"
+    );
+
+    errors.length = 0;
+    mgr.pause();
+    const dep = mgr.addTask({
+      taskDesc: "依赖",
+      task: () => {
+        throw new Error("失败");
+      },
+      catch: noop,
+    });
+    for (const name of ["c", "d"]) {
+      mgr.addTask({
+        taskDesc: name,
+        dependsOn: [dep],
+        task: noop,
+        catch: () => {
+          throw new Error(`cb-${name}`);
+        },
+      });
+    }
+    thrown = "";
+    try {
+      mgr.resume();
+    } catch (e) {
+      thrown = (e as Error).message;
+    }
+    this.assert(
+      thrown === "cb-c" &&
+        errors.length === 1 &&
+        errors[0].fields?.taskDesc === "d",
+      "依赖失败时下游回调的异常也应只抛出第一个，其余写入日志"
+    );
+  }
+
+  /**
+   * 测试71：依赖不在快照中的任务不写入快照
+   */
+  static async test71_snapshotMissingDependency(): Promise<void> {
+    console.log("\n=== 测试71：依赖不在快照中的任务不写入快照 ===");
+    const warnings: Array<Record<string, any> | undefined> = [];
+    const noop = () => {};
+    const logger = {
+      debug: noop,
+      info: noop,
+      error: noop,
+      warn: (message: string, fields?: Record<string, any>) => {
+        warnings.push(fields);
+      },
+    };
+    const mgr = TaskMgr.create({ logger });
+    mgr.register("upload", noop);
+    mgr.pause();
+    const plain = mgr.addTask({ taskDesc: "闭包任务", task: noop });
+    const downstream = mgr.addNamedTask({
+      taskDesc: "依赖闭包任务",
+      name: "upload",
+      dependsOn: [plain],
+    });
+    mgr.addNamedTask({
+      taskDesc: "间接依赖",
+      name: "upload",
+      dependsOn: [downstream],
+    });
+    mgr.addNamedTask({ taskDesc: "独立任务", name: "upload" });
+
+    const snapshot = mgr.snapshot();
+    this.assert(
+      snapshot.tasks.map((t) => t.taskDesc).join(",") === "独立任务",
+      "依赖不在快照中的任务及其下游不应写入快照"
+    );
+    this.assert(
+      warnings.length === 2 &&
+        warnings[0]?.taskDesc === "依赖闭包任务" &&
+        warnings[0]?.dependencyId === plain,
+      "跳过的任务应通过 logger 警告"
+    );
+    mgr.clear();
+  }
+
   /**
    * 运行所有测试
    */
@@ -760,6 +3384,60 @@ export class TaskMgrTest {
     await this.test15_rejectAndCatchBoth();
     await this.test16_isTaskAlive();
     await this.test17_clearStopsOldAsyncCallbacks();
+    await this.test18_maxConcurrency();
+    await this.test19_slotWeight();
+    await this.test20_priority();
+    await this.test21_priorityAging();
+    await this.test22_dependsOn();
+    await this.test23_dependencyFailure();
+    await this.test24_timeout();
+    await this.test25_defaultTimeout();
+    await this.test26_abortSignal();
+    await this.test27_clearAbortsRunning();
+    await this.test28_retry();
+    await this.test29_retryExhausted();
+    await this.test30_runTask();
+    await this.test31_runTaskRejections();
+    await this.test32_pauseResume();
+    await this.test33_stepOnce();
+    await this.test34_events();
+    await this.test35_whenIdle();
+    await this.test36_dedupe();
+    await this.test37_joinRunning();
+    await this.test38_rateLimit();
+    await this.test39_rateGroups();
+    await this.test40_groupCancelAll();
+    await this.test41_groupResults();
+    await this.test42_stats();
+    await this.test43_debugTaskError();
+    await this.test44_loggerAndUnhandledError();
+    await this.test45_delayedTasks();
+    await this.test46_repeatingTasks();
+    await this.test47_virtualClock();
+    await this.test48_middleware();
+    await this.test49_childQueue();
+    await this.test50_childSharedSlot();
+    await this.test51_resourceLocks();
+    await this.test52_snapshotRestore();
+    await this.test53_snapshotFileStorage();
+    await this.test54_idsSurviveManyClears();
+    await this.test55_eagerCancel();
+    await this.test56_longSyncChain();
+    await this.test57_yieldToEventLoop();
+    await this.test58_generatorTasks();
+    await this.test59_generatorCancel();
+    await this.test60_settledRecords();
+    await this.test61_longDependencyChain();
+    await this.test62_parkedTasks();
+    await this.test63_repeatDependencyFailure();
+    await this.test64_resumeGrandchild();
+    await this.test65_resourcesDefaultConcurrency();
+    await this.test66_joinedUnhandled();
+    await this.test67_resolveThrowsNoRetry();
+    await this.test68_evictedFailedRecords();
+    await this.test69_groupCancelShared();
+    await this.test70_callbackErrorsLogged();
+    await this.test71_snapshotMissingDependency();
 
     console.log("\n========================================");
     console.log("测试结果汇总");